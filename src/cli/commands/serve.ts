@@ -1,4 +1,4 @@
-import { Command } from "@cliffy/command";
+import { Command, EnumType } from "@cliffy/command";
 import { blue, magenta, red, yellow } from "@std/fmt/colors";
 import * as Log from "@std/log";
 import type { ZodFormattedError } from "zod";
@@ -6,10 +6,13 @@ import { ZodError } from "zod";
 import type { ConfigurationInput } from "../../config/mod.ts";
 import { loadConfiguration } from "../../config/mod.ts";
 import { server as runServer } from "../../server/mod.ts";
+import { registerTransports } from "../../transport.ts";
+import { describeTransportOptions, transports } from "../../transports/mod.ts";
 import { InvocationError, ParseError } from "../_errors.ts";
 import { resolveFileOption } from "../_utilities.ts";
 
 const signal = configureSignals();
+const overflowPolicies = new EnumType(["drop-oldest", "disconnect"] as const);
 
 export const Serve = new Command()
   .name("serve")
@@ -21,13 +24,41 @@ export const Serve = new Command()
   .option(
     "-t, --transport-uri <uri:string>",
     "The connection DSN to use for the event transport. The URL scheme " +
-      "will be used to identify the transport adapter to use.",
+      "will be used to identify the transport adapter to use. Transport " +
+      "options may be passed as query parameters, as listed below.",
+  )
+  .option(
+    "--transports <module:string>",
+    "Module specifier of an additional transport to load, such as a local " +
+      "path or a JSR or npm specifier. Can be specified multiple times.",
+    { collect: true },
   )
   .option(
     "--heartbeat-interval <duration:integer>",
     "The interval between heartbeat messages, in milliseconds. " +
       "Defaults to 30 seconds.",
   )
+  .option(
+    "--write-timeout <duration:integer>",
+    "The maximum time to wait for the transport to store a published " +
+      "update, in milliseconds. Defaults to 5 seconds.",
+  )
+  .option(
+    "--max-buffered-messages <count:integer>",
+    "The maximum number of messages waiting to be written to a subscriber " +
+      "that doesn't keep up. Defaults to 1000.",
+  )
+  .option(
+    "--max-buffered-bytes <size:integer>",
+    "The maximum number of bytes waiting to be written to a subscriber " +
+      "that doesn't keep up. Defaults to 1 MiB.",
+  )
+  .type("overflow-policy", overflowPolicies)
+  .option(
+    "--overflow-policy <policy:overflow-policy>",
+    "What to do with subscribers exceeding the buffer limits: Drop the " +
+      "oldest messages, or disconnect them. Defaults to disconnect.",
+  )
   .group("Server Options")
   .option(
     "-l, --listen-address <adress:string>",
@@ -100,6 +131,11 @@ export const Serve = new Command()
     { hidden: true },
   )
   .group("Authorization Options")
+  .option(
+    "--expiration-grace-period <duration:integer>",
+    "The time to keep subscriber connections open after their token has " +
+      "expired, in milliseconds. Defaults to 0.",
+  )
   .option(
     "--query-param-authorization",
     "Enable subscribers to authenticate using a query parameter. This " +
@@ -194,6 +230,10 @@ export const Serve = new Command()
       depends: ["publish-jwks-url"],
     },
   )
+  .example(
+    "Pass options to the transport",
+    `mercure serve --transport-uri ${blue("redis://localhost:6379?maxlen=100000&maxAge=24h")}`,
+  )
   .action(async (options) => {
     let config: Awaited<ReturnType<typeof loadConfiguration>>;
 
@@ -228,7 +268,7 @@ export const Serve = new Command()
 
     try {
       const server = await runServer(config, signal);
-      await server.finished;
+      await server.closed;
     } catch (cause) {
       if (options.debug) {
         console.error(red("%o\n"), cause);
@@ -236,12 +276,40 @@ export const Serve = new Command()
         throw new Error("Terminated due to an error.");
       }
 
+      if (cause instanceof ZodError) {
+        const message = renderConfigurationValidationError(cause);
+
+        throw new ParseError(message, cause);
+      }
+
       throw new InvocationError(cause.message, 1, cause);
     }
 
-    Deno.exit(0);
+    Deno.exit(exitCode(signal));
   });
 
+/**
+ * List the options of every transport in the help, so users don't have to
+ * look them up. As this imports all built-in transports, it should only be
+ * done if the help is about to be shown.
+ */
+export async function describeTransports() {
+  await registerTransports();
+
+  for (const transport of transports.values()) {
+    const options = describeTransportOptions(transport);
+
+    if (options.length > 0) {
+      Serve.example(
+        `Options of the ${transport.protocol} transport`,
+        options
+          .map(([name, description]) => `${yellow(name)}: ${description}`)
+          .join("\n"),
+      );
+    }
+  }
+}
+
 function renderConfigurationValidationError<
   T extends ZodError<ConfigurationInput>,
 >(
@@ -295,19 +363,21 @@ function renderConfigurationValidationError<
  * AbortSignal that will be triggered when either of these signals is received.
  *
  * This way, if the command is aborted gracefully (or forcefully!), we can
- * propagate the shutdown request to the server and clean up resources.
+ * propagate the shutdown request to the server and clean up resources. The
+ * process exits once the hub has closed, or after the shutdown timeout if
+ * closing takes too long.
  */
 function configureSignals() {
   const controller = new AbortController();
   controller.signal.addEventListener("abort", ({ target }) => {
-    const { reason = "Unknown", code = 1 } = target instanceof AbortSignal &&
+    const { reason = "Unknown" } = target instanceof AbortSignal &&
         resolveAbortReason(target.reason)
       ? target.reason
       : {};
 
     Log.debug("Received signal to abort: %s", reason);
 
-    setTimeout(() => Deno.exit(code), 3_000);
+    setTimeout(() => Deno.exit(exitCode(controller.signal)), shutdownTimeout);
   });
 
   Deno.addSignalListener("SIGINT", () => {
@@ -320,12 +390,30 @@ function configureSignals() {
   return controller.signal;
 }
 
+/**
+ * Resolve the exit code of the process: Zero, unless it has been aborted by a
+ * signal, in which case the code of the abort reason is used.
+ */
+function exitCode(signal: AbortSignal) {
+  if (!signal.aborted) {
+    return 0;
+  }
+
+  return resolveAbortReason(signal.reason) ? signal.reason.code ?? 1 : 1;
+}
+
 function resolveAbortReason(reason: unknown): reason is AbortReason {
   return typeof reason === "object" && reason !== null && "reason" in reason;
 }
 
 type AbortReason = { reason: string; code?: number };
 
+/**
+ * Maximum time to wait for the hub to close after receiving a signal, in
+ * milliseconds.
+ */
+const shutdownTimeout = 10_000;
+
 function placeholder(value: string) {
   return yellow("<") + magenta(value) + yellow(">");
 }
@@ -1,7 +1,7 @@
 import { Command, EnumType } from "@cliffy/command";
 import { LogLevelNames } from "@std/log";
 import { Issue } from "./commands/issue.ts";
-import { Serve } from "./commands/serve.ts";
+import { describeTransports, Serve } from "./commands/serve.ts";
 
 const commands = [
   Serve,
@@ -51,6 +51,12 @@ export async function cli(argv: string[]): Promise<void> {
     cli.command(command.getName(), command);
   }
 
+  // Describing the transports requires importing all of them, which is only
+  // worth it if the help is shown
+  if (argv.includes("--help") || argv.includes("-h")) {
+    await describeTransports();
+  }
+
   try {
     await cli.parse(argv);
   } catch (cause) {
@@ -147,6 +147,24 @@ const schema = z
       })
       .url()
       .default("memory:"),
+    transports: z
+      .preprocess(
+        (value: unknown) => {
+          if (Array.isArray(value)) {
+            return value;
+          }
+
+          return typeof value === "string" ? value.split(",") : value;
+        },
+        z.array(
+          z.string().min(1, "Transport module specifiers must not be empty."),
+          {
+            description: `Module specifiers of additional transports to load. Each module must ` +
+              `export a transport class or instance as its default export.`,
+          },
+        )
+          .default([]),
+      ),
 
     // region Logging Options
     logLevel: z
@@ -208,6 +226,57 @@ const schema = z
       .min(100, "The heartbeat interval must be at least 100 milliseconds.")
       .optional()
       .default(30_000),
+    writeTimeout: z
+      .number({
+        coerce: true,
+        message: "The write timeout must be specified as a number of milliseconds.",
+        description: "The maximum time to wait for the transport to store a published " +
+          "update, in milliseconds.",
+      })
+      .int("The write timeout must be an integer; fractional values are not supported.")
+      .positive("The write timeout must be a positive amount of milliseconds.")
+      .optional()
+      .default(5_000),
+    maxBufferedMessages: z
+      .number({
+        coerce: true,
+        message: "The buffered message limit must be specified as a number of messages.",
+        description: "The maximum number of messages waiting to be written to a subscriber, " +
+          "before the overflow policy applies.",
+      })
+      .int("The buffered message limit must be an integer.")
+      .positive("The buffered message limit must be a positive number of messages.")
+      .optional()
+      .default(1_000),
+    maxBufferedBytes: z
+      .number({
+        coerce: true,
+        message: "The buffered byte limit must be specified as a number of bytes.",
+        description: "The maximum number of bytes waiting to be written to a subscriber, " +
+          "before the overflow policy applies.",
+      })
+      .int("The buffered byte limit must be an integer.")
+      .positive("The buffered byte limit must be a positive number of bytes.")
+      .optional()
+      .default(1_048_576),
+    overflowPolicy: z
+      .enum(["drop-oldest", "disconnect"], {
+        description: `What to do with subscribers exceeding the buffer limits: Either drop ` +
+          `the oldest messages, or disconnect them, so they reconnect and resume from the ` +
+          `history.`,
+      })
+      .default("disconnect"),
+    expirationGracePeriod: z
+      .number({
+        coerce: true,
+        message: "The expiration grace period must be specified as a number of milliseconds.",
+        description: "The time to keep subscriber connections open after their token has " +
+          "expired, in milliseconds.",
+      })
+      .int("The expiration grace period must be an integer; fractional values are not supported.")
+      .nonnegative("The expiration grace period must not be negative.")
+      .optional()
+      .default(0),
     queryParamAuthorization: z
       .boolean({
         description: "Whether to allow subscribers to authenticate " +
@@ -1,12 +1,70 @@
-import type { EventMap, MessageEventListener, Transport } from "./transports/mod.ts";
+import * as Log from "@std/log";
+import type {
+  EventMap,
+  MessageEventListener,
+  Transport,
+  TransportStatus,
+} from "./transports/mod.ts";
+import { encodeEventFrame } from "./server_sent_events.ts";
+import type { Subscriber } from "./subscribers.ts";
+import { SubscriptionRegistry } from "./subscription_registry.ts";
+import type { Update } from "./updates.ts";
 
 export const earliestEventId = "earliest";
 
 export class Hub {
   readonly #transport: Transport;
+  readonly #registry = new SubscriptionRegistry();
+  readonly #listeners = new Map<Subscriber, UpdateListener>();
+  #closing: Promise<void> | undefined;
 
   public constructor(transport: Transport) {
     this.#transport = transport;
+
+    // A single listener fans updates out to all subscribers, instead of one
+    // listener per subscriber testing every update on its own.
+    this.#transport.addEventListener("update", ({ data }) => this.#fanOut(data));
+  }
+
+  /**
+   * Number of subscriptions receiving live updates.
+   */
+  get subscriptions() {
+    return this.#registry.size;
+  }
+
+  /**
+   * Subscribe a subscriber to live updates.
+   *
+   * The subscriptions of the subscriber are added to the subscription registry,
+   * and the listener is called with every update matching at least one of them,
+   * along with the update encoded as an event frame. The frame is shared by all
+   * listeners, so it must not be modified.
+   * Subscriptions added to the subscriber later on are not taken into account.
+   * Listeners must still check whether the subscriber may access the update,
+   * as the registry does not know about private updates.
+   *
+   * @param subscriber Subscriber to deliver updates to
+   * @param listener Function called with every matching update
+   * @returns A function that unsubscribes the subscriber again
+   */
+  public subscribe(subscriber: Subscriber, listener: UpdateListener) {
+    const subscriptions = [...subscriber.subscriptions];
+    this.#listeners.set(subscriber, listener);
+    subscriptions.forEach((subscription) => this.#registry.add(subscription));
+
+    return () => {
+      subscriptions.forEach((subscription) => this.#registry.delete(subscription));
+      this.#listeners.delete(subscriber);
+    };
+  }
+
+  /**
+   * Connection status of the transport. Transports without a backend to lose
+   * are always connected.
+   */
+  get status(): TransportStatus {
+    return this.#transport.status ?? "connected";
   }
 
   eventsAfter(lastEventId = earliestEventId) {
@@ -17,6 +75,34 @@ export class Hub {
     this.#transport.dispatchEvent(event);
   }
 
+  /**
+   * Publish an update, and wait for the transport to store it.
+   *
+   * @param update Update to publish
+   * @param timeout Maximum time to wait for the transport, in milliseconds
+   * @throws {Error} If the transport failed to store the update in time
+   */
+  public async publish(update: Update, timeout?: number) {
+    if (!this.#transport.publish) {
+      this.#transport.dispatchEvent(new MessageEvent("update", { data: update }));
+
+      return;
+    }
+
+    await this.#transport.publish(update, timeout ? AbortSignal.timeout(timeout) : undefined);
+  }
+
+  /**
+   * Close the transport, so it may write pending events, or a snapshot of its
+   * history, before the hub shuts down. Subsequent calls wait for the same
+   * transport to close.
+   */
+  public close() {
+    this.#closing ??= Promise.resolve(this.#transport.close());
+
+    return this.#closing;
+  }
+
   public addEventListener<K extends keyof EventMap>(
     type: K,
     listener: MessageEventListener<EventMap[K]>,
@@ -44,4 +130,25 @@ export class Hub {
       listener as EventListener,
     );
   }
+
+  #fanOut(update: Update) {
+    const subscribers = this.#registry.match([update.canonicalTopic, ...update.alternateTopics]);
+
+    if (subscribers.size === 0) {
+      return;
+    }
+
+    // Encode the update once for all subscribers, instead of once per subscriber
+    const frame = encodeEventFrame(update);
+
+    for (const subscriber of subscribers) {
+      try {
+        this.#listeners.get(subscriber)?.(update, frame);
+      } catch (error) {
+        Log.error(`Update delivery failed: ${error.message}`, { error });
+      }
+    }
+  }
 }
+
+type UpdateListener = (update: Update, frame: Uint8Array) => unknown;
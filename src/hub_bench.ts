@@ -0,0 +1,75 @@
+import { Hub } from "./hub.ts";
+import { EventStream, Subscriber } from "./subscribers.ts";
+import { Subscription } from "./subscriptions.ts";
+import { createUpdate } from "./test_utilities.ts";
+import { createTopicSelector, TopicSelector } from "./topic.ts";
+import { MemoryTransport } from "./transports/memory.ts";
+
+const baseURL = new URL("https://example.com/.well-known/mercure");
+const subscriberCount = 50_000;
+
+/**
+ * Create subscribers the way they are typically distributed: Most of them
+ * subscribe to a single resource, some to a collection using a template, and
+ * a few to everything.
+ */
+function createSubscribers() {
+  return Array.from({ length: subscriberCount }, (_, index) => {
+    const subscriber = new Subscriber(new EventStream(new WritableStream()));
+    const selector = index % 500 === 0
+      ? createTopicSelector("*")
+      : index % 50 === 0
+      ? new TopicSelector(new URLPattern(`https://example.com/authors/${index}/books/:id`), baseURL)
+      : createTopicSelector(`https://example.com/books/${index}`, baseURL);
+
+    new Subscription(subscriber, selector);
+
+    return subscriber;
+  });
+}
+
+const topics = {
+  "a single resource": "https://example.com/books/4711",
+  "a collection": "https://example.com/authors/50/books/1",
+  "a topic without subscribers": "https://example.com/publishers/1",
+};
+
+// Before the subscription registry, every connection registered a listener of
+// its own, testing every update against all of its subscriptions.
+const listenerTransport = new MemoryTransport(1);
+
+for (const subscriber of createSubscribers()) {
+  listenerTransport.addEventListener("update", ({ data }) => subscriber.canAccess(data, true));
+}
+
+const registryTransport = new MemoryTransport(1);
+const hub = new Hub(registryTransport);
+
+for (const subscriber of createSubscribers()) {
+  hub.subscribe(subscriber, (update) => subscriber.canAccess(update, true));
+}
+
+for (const [description, topic] of Object.entries(topics)) {
+  const group = `Fan out an update for ${description} to ${subscriberCount} subscribers`;
+
+  Deno.bench({
+    name: "One listener per subscriber",
+    group,
+    baseline: true,
+    fn() {
+      listenerTransport.dispatchEvent(
+        new MessageEvent("update", { data: createUpdate(crypto.randomUUID(), topic) }),
+      );
+    },
+  });
+
+  Deno.bench({
+    name: "Subscription registry",
+    group,
+    fn() {
+      registryTransport.dispatchEvent(
+        new MessageEvent("update", { data: createUpdate(crypto.randomUUID(), topic) }),
+      );
+    },
+  });
+}
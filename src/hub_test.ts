@@ -0,0 +1,92 @@
+import { assertEquals, assertStrictEquals } from "@std/assert";
+import { Hub } from "./hub.ts";
+import { EventStream, Subscriber } from "./subscribers.ts";
+import { Subscription } from "./subscriptions.ts";
+import { createUpdate } from "./test_utilities.ts";
+import { createTopicSelector } from "./topic.ts";
+import { MemoryTransport } from "./transports/memory.ts";
+import type { Update } from "./updates.ts";
+
+const baseURL = new URL("https://example.com/.well-known/mercure");
+
+Deno.test("Hub fan-out", async (ctx) => {
+  await ctx.step("Deliver updates to matching subscribers only", () => {
+    const transport = new MemoryTransport(1);
+    const hub = new Hub(transport);
+    const received: Update[] = [];
+
+    hub.subscribe(subscribe("https://example.com/books/1"), (update) => received.push(update));
+    hub.subscribe(subscribe("https://example.com/books/2"), () => {
+      throw new Error("Unexpected update");
+    });
+
+    const update = createUpdate("urn:uuid:1", "https://example.com/books/1");
+    transport.dispatchEvent(new MessageEvent("update", { data: update }));
+
+    assertEquals(received, [update]);
+  });
+
+  await ctx.step("Share a single encoded frame between all subscribers", async () => {
+    const transport = new MemoryTransport(1);
+    const hub = new Hub(transport);
+    const chunks: Uint8Array[] = [];
+    const deliveries: Promise<void>[] = [];
+
+    for (let index = 0; index < 3; index++) {
+      const subscriber = subscribe("https://example.com/books/1", chunks);
+
+      hub.subscribe(subscriber, (update, frame) => {
+        deliveries.push(subscriber.dispatch(update, frame));
+      });
+    }
+
+    transport.dispatchEvent(
+      new MessageEvent("update", {
+        data: createUpdate("urn:uuid:1", "https://example.com/books/1"),
+      }),
+    );
+    await Promise.all(deliveries);
+
+    assertEquals(chunks.length, 3);
+    assertStrictEquals(chunks[1], chunks[0]);
+    assertStrictEquals(chunks[2], chunks[0]);
+    assertEquals(
+      new TextDecoder().decode(chunks[0]),
+      "data: urn:uuid:1\nid: urn:uuid:1\n\n",
+    );
+  });
+
+  await ctx.step("Stop delivering updates after unsubscribing", () => {
+    const transport = new MemoryTransport(1);
+    const hub = new Hub(transport);
+    const received: Update[] = [];
+
+    const unsubscribe = hub.subscribe(
+      subscribe("https://example.com/books/1"),
+      (update) => received.push(update),
+    );
+    assertEquals(hub.subscriptions, 1);
+
+    unsubscribe();
+    transport.dispatchEvent(
+      new MessageEvent("update", {
+        data: createUpdate("urn:uuid:1", "https://example.com/books/1"),
+      }),
+    );
+
+    assertEquals(received, []);
+    assertEquals(hub.subscriptions, 0);
+  });
+});
+
+/**
+ * Create a subscriber with a single subscription, collecting the chunks
+ * written to its event stream.
+ */
+function subscribe(topic: string, chunks: Uint8Array[] = []) {
+  const stream = new WritableStream<Uint8Array>({ write: (chunk) => void chunks.push(chunk) });
+  const subscriber = new Subscriber(new EventStream(stream));
+  new Subscription(subscriber, createTopicSelector(topic, baseURL));
+
+  return subscriber;
+}
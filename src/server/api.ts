@@ -56,6 +56,11 @@ export function initializeApi(hub: Hub, router: Router, config: Configuration) {
               active: subscriber.active,
               payload: subscriber.payload,
             }),
+
+            // Subscription events may expose the subscriber payload, so they
+            // must only be dispatched to authorized subscribers.
+            // See https://mercure.rocks/spec#subscription-events
+            private: true,
           },
         }),
       );
@@ -0,0 +1,28 @@
+import * as Log from "@std/log";
+import type { Hub } from "../hub.ts";
+import type { Router } from "./router.ts";
+import { json } from "./utils.ts";
+
+/**
+ * Path of the health check endpoint, as used by most orchestrators.
+ */
+export const healthCheckPath = "/healthz";
+
+/**
+ * Register the health check endpoint.
+ *
+ * The hub is considered healthy as long as its transport is connected. While
+ * the transport is reconnecting, updates may not reach other hub nodes, so the
+ * endpoint responds with `503 Service Unavailable` to take the node out of
+ * rotation until the connection has been restored.
+ */
+export function initializeHealthCheck(hub: Hub, router: Router) {
+  Log.debug("Initializing health check endpoint");
+
+  router.get(healthCheckPath, () => {
+    const transport = hub.status;
+    const healthy = transport === "connected";
+
+    return json({ status: healthy ? "ok" : "unavailable", transport }, healthy ? 200 : 503);
+  });
+}
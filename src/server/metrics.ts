@@ -2,6 +2,7 @@ import * as Log from "@std/log";
 import { Counter, Gauge, Registry } from "@wok/prometheus";
 import type { Configuration } from "../config/mod.ts";
 import type { Hub } from "../hub.ts";
+import { Subscriber } from "../subscribers.ts";
 import type { Router } from "./router.ts";
 
 export function initializeMetrics(hub: Hub, router: Router, config: Configuration) {
@@ -39,6 +40,13 @@ export function initializeMetrics(hub: Hub, router: Router, config: Configuratio
   });
   // endregion
 
+  // region Mercure metrics: Transport
+  const transportConnected = Gauge.with({
+    name: "mercure_transport_connected",
+    help: "Whether the transport is connected to its backend",
+  });
+  // endregion
+
   // region Mercure metrics: Message events
   const totalSubscribers = Counter.with({
     name: "mercure_subscribers_total",
@@ -57,15 +65,28 @@ export function initializeMetrics(hub: Hub, router: Router, config: Configuratio
     help: "Current number of active subscriptions",
     labels: ["topic"],
   });
+  const evictions = Counter.with({
+    name: "mercure_subscriber_evictions",
+    help: "Total number of times subscribers exceeded their buffer limits",
+    labels: ["policy"],
+  });
   const updates = Counter.with({
     name: "mercure_updates",
     help: "Total number of updates dispatched",
     labels: ["topic", "type", "private"],
   });
 
-  hub.addEventListener("connect", () => {
+  hub.addEventListener("connect", ({ detail: { subscriber } }) => {
     subscribers.inc();
     totalSubscribers.inc();
+
+    // Subscribers connected to other hub nodes arrive serialized, and are
+    // evicted by their own node.
+    if (subscriber instanceof Subscriber) {
+      subscriber.addEventListener("evict", ({ detail: { policy } }) => {
+        evictions.labels({ policy }).inc();
+      });
+    }
   });
   hub.addEventListener("disconnect", () => subscribers.dec());
 
@@ -103,6 +124,7 @@ export function initializeMetrics(hub: Hub, router: Router, config: Configuratio
 
   router.get(config.metricsEndpoint, ({ request }) => {
     collectDenoMetrics();
+    transportConnected.set(hub.status === "connected" ? 1 : 0);
     const metrics = registry.metrics();
 
     const userAgent = request.headers.get("user-agent");
@@ -7,6 +7,7 @@ import { mercurePath, register as registerRoutes } from "../routes.ts";
 import { setupTransport } from "../transport.ts";
 import { initializeApi } from "./api.ts";
 import { createHandler } from "./handler.ts";
+import { initializeHealthCheck } from "./health.ts";
 import { initializeMetrics } from "./metrics.ts";
 import { Router } from "./router.ts";
 import { initializeWebUi } from "./web_ui.ts";
@@ -14,7 +15,7 @@ import { initializeWebUi } from "./web_ui.ts";
 export async function server(
   config: Configuration,
   signal?: AbortSignal,
-): Promise<Deno.HttpServer<Deno.NetAddr | Deno.UnixAddr>> {
+): Promise<HubServer> {
   configureLogging(config);
 
   const transport = await setupTransport(config);
@@ -31,6 +32,10 @@ export async function server(
     initializeWebUi(router, config);
   }
 
+  if (config.healthCheck) {
+    initializeHealthCheck(hub, router);
+  }
+
   if (config.metrics) {
     initializeMetrics(hub, router, config);
   }
@@ -39,7 +44,15 @@ export async function server(
     ? { path: config.listenAddress!.pathname }
     : { hostname: config.listenAddress!.hostname, port: Number(config.listenAddress!.port) };
 
-  return Deno.serve({
+  // Close the transport on shutdown, so it may write pending events, or a
+  // snapshot of its history, before the process exits. When aborted, it is
+  // closed right away, as open event streams keep the server from finishing.
+  const closed = Promise.withResolvers<void>();
+  let closing: Promise<void> | undefined;
+  const close = () => closed.resolve(closing ??= closeHub(hub));
+  signal?.addEventListener("abort", close, { once: true });
+
+  const httpServer = Deno.serve({
     ...listenOptions,
     onListen(addr) {
       const hubAddress = "path" in addr
@@ -50,8 +63,28 @@ export async function server(
     },
     signal,
   }, createHandler(router, hub, config));
+
+  void httpServer.finished.then(close);
+
+  return Object.assign(httpServer, { closed: closed.promise });
 }
 
+async function closeHub(hub: Hub) {
+  try {
+    await hub.close();
+  } catch (error) {
+    Log.error(`Closing the transport failed: ${error.message}`, { error });
+  }
+}
+
+type HubServer = Deno.HttpServer<Deno.NetAddr | Deno.UnixAddr> & {
+  /**
+   * Resolves once the transport has been closed, after the server has been
+   * aborted or has finished.
+   */
+  closed: Promise<void>;
+};
+
 if (import.meta.main) {
   const config = await loadConfiguration(Deno.env);
 
@@ -56,6 +56,10 @@ import { MercureTokenPayload } from "../jws.ts";
  * **MUST** be returned. The publisher **MUST** be authorized to publish
  * updates. See {@link https://mercure.rocks/spec#authorization|authorization}.
  *
+ * The hub only responds once the transport has stored the update. If it fails
+ * to do so within the configured write timeout, the hub responds with `503
+ * Service Unavailable` and a `Retry-After` header instead.
+ *
  * @param request
  * @example ```http
  *          POST /.well-known/mercure HTTP/1.1
@@ -103,6 +107,7 @@ export const handlePublication = async function handlePublication(
   const {
     id,
     data,
+    private: confidential,
     retry,
     topic: topics,
     type,
@@ -122,22 +127,37 @@ export const handlePublication = async function handlePublication(
 
   const [canonicalTopic, ...alternateTopics] = topics;
 
-  hub.dispatchEvent(
-    new MessageEvent("update", {
-      data: {
-        id,
-        canonicalTopic,
-        alternateTopics,
-        data,
-        retry,
-        type,
-      },
-    }),
-  );
+  // Only respond once the transport has stored the update, so publishers can
+  // tell whether it has been accepted, and try again if it hasn't.
+  try {
+    await hub.publish({
+      id,
+      canonicalTopic,
+      alternateTopics,
+      data,
+      private: confidential,
+      retry,
+      type,
+    }, config.writeTimeout);
+  } catch (cause) {
+    throw new HttpError(
+      503,
+      `Service Unavailable: The update could not be stored: ${cause.message}`,
+      { "retry-after": String(retryAfter) },
+      cause,
+    );
+  }
 
   return new Response(id, { status: 200 });
 } satisfies HandlerFn;
 
+/**
+ * Number of seconds publishers should wait before trying again, if an update
+ * could not be stored. This covers short outages of the transport backend,
+ * while reconnecting.
+ */
+const retryAfter = 5;
+
 const publicationSchema = z.object({
   topic: z
     .union([
@@ -165,15 +185,7 @@ const publicationSchema = z.object({
         "any value including an empty string.",
     })
     .optional()
-    .transform((value) =>
-      value && [
-        "true",
-        "1",
-        "yes",
-        "on",
-      ].includes(value)
-    )
-    .pipe(z.boolean().default(true)),
+    .transform((value) => typeof value !== "undefined"),
   id: z
     .string({
       description:
@@ -197,8 +209,10 @@ const publicationSchema = z.object({
     .optional(),
   retry: z
     .number({
+      coerce: true,
       description: "The SSE's retry property (the reconnection time).",
     })
+    .int()
     .positive()
     .optional(),
 });
@@ -1,9 +1,11 @@
+import * as Log from "@std/log";
 import { z } from "zod";
-import { earliestEventId, type Hub } from "../hub.ts";
+import type { Hub } from "../hub.ts";
 import type { MercureTokenPayload } from "../jws.ts";
 import { EventStream, Subscriber } from "../subscribers.ts";
 import { Subscription } from "../subscriptions.ts";
 import { createTopicSelector, TopicSelector } from "../topic.ts";
+import { UnknownEventIdError } from "../transports/_errors.ts";
 import type { Update } from "../updates.ts";
 import { HttpError } from "./_errors.ts";
 import { authorize, keyResolver } from "./authorization.ts";
@@ -124,15 +126,30 @@ export const handleSubscription = async function handleSubscription(
 
   const [authorizedTopics, payload] = checkClaims(claims, url);
   const lastEventId = extractLastEventId(request);
+  let controller: TransformStreamDefaultController<Uint8Array>;
   const {
     readable,
     writable,
-  } = new TransformStream<Uint8Array, Uint8Array>();
+  } = new TransformStream<Uint8Array, Uint8Array>({
+    start: (transformController) => void (controller = transformController),
+  });
 
   // Create a new subscriber bound to the transform stream. It will serve as
-  // the bridge to the client, keeping a reference to the SSE stream.
+  // the bridge to the client, keeping a reference to the SSE stream. Aborting
+  // the writable side waits for the client to read the pending chunk, which a
+  // stalled client never does, so the response body is ended instead. A hint
+  // is queued as its last chunk, to be read whenever the client catches up;
+  // the writable side errors right away either way.
+  const stream = new EventStream(writable, (reason, hint) => {
+    if (!hint) {
+      return controller.error(reason);
+    }
+
+    controller.enqueue(hint);
+    controller.terminate();
+  });
   const subscriber = new Subscriber(
-    new EventStream(writable),
+    stream,
     lastEventId,
     authorizedTopics,
     payload,
@@ -144,14 +161,26 @@ export const handleSubscription = async function handleSubscription(
 
   const subscriptions = topicSelectors.map((selector) => new Subscription(subscriber, selector));
 
-  if (lastEventId) {
-    // Reconcile the subscriber with the last event ID sent by the client.
-    // This will send all updates that occurred since the client's last
-    // event ID.
-    await reconcile(hub, subscriber, {
+  // Subscribe the subscriber for updates, if they are eligible to receive it.
+  // If the client sent a last event ID, this will replay all updates that
+  // occurred since, before switching over to live delivery. If that fails,
+  // the subscriber must be closed to stop its heartbeats.
+  let unsubscribe: () => void;
+
+  try {
+    unsubscribe = await bootstrap(hub, subscriber, {
       lastEventId,
       anonymousAccess: config.anonymousAccess,
     });
+  } catch (error) {
+    void subscriber.close();
+    throw error;
+  }
+
+  // The connection must end once the token expires, so clients have to
+  // present a fresh token to keep receiving updates.
+  if (claims?.exp !== undefined) {
+    subscriber.expireAt(new Date(claims.exp * 1_000 + config.expirationGracePeriod));
   }
 
   // Dispatch a subscription event to the hub for each topic selector.
@@ -161,27 +190,41 @@ export const handleSubscription = async function handleSubscription(
     )
   ));
 
-  // Subscribe the subscriber for updates, if they are eligible to receive it.
-  const unsubscribe = hub.addEventListener("update", ({ data }) =>
-    sendUpdate(
-      subscriber,
-      data,
-      config.anonymousAccess,
-    ));
-
   // When the client closes the connection, we can use the request's abort
-  // signal to close the subscriber cleanly and remove it from the list.
-  request.signal.addEventListener("abort", () => {
-    void subscriber.close();
+  // signal to close the subscriber cleanly and remove it from the list. The
+  // subscriber may also be disconnected if it can't keep up with updates, so
+  // we clean up once, whatever happens first.
+  let disconnected = false;
+  const disconnect = () => {
+    if (disconnected) {
+      return;
+    }
+
+    disconnected = true;
     unsubscribe();
 
     hub.dispatchEvent(new CustomEvent("disconnect", { detail: { subscriber } }));
+  };
+
+  subscriber.addEventListener("close", disconnect);
+  request.signal.addEventListener("abort", () => {
+    void subscriber.close();
+    disconnect();
   });
 
   // Dispatch a connection event to the hub to notify that a new subscriber
   // has connected.
   hub.dispatchEvent(new CustomEvent("connect", { detail: { subscriber } }));
 
+  // Limit the updates queued for clients that don't keep up from now on. The
+  // replayed history is queued before the client can even start reading, so
+  // it doesn't count towards the limits.
+  stream.limit({
+    maxMessages: config.maxBufferedMessages,
+    maxBytes: config.maxBufferedBytes,
+    policy: config.overflowPolicy,
+  });
+
   // Dispatch the response to the client immediately: The SSE stream is
   // asynchronous and will be updated as messages are sent.
   return new Response(readable, {
@@ -206,26 +249,89 @@ export const handleSubscription = async function handleSubscription(
   });
 } satisfies HandlerFn;
 
-function sendUpdate(subscriber: Subscriber, update: Update, anonymousAccess = false) {
+function sendUpdate(
+  subscriber: Subscriber,
+  update: Update,
+  anonymousAccess = false,
+  frame?: Uint8Array,
+) {
   if (!subscriber.canAccess(update, anonymousAccess)) {
     return Promise.resolve();
   }
 
-  return subscriber.dispatch(update);
+  return subscriber.dispatch(update, frame);
 }
 
-async function reconcile(
+/**
+ * Bootstrap the update delivery for a new subscriber.
+ *
+ * To avoid losing updates published while the history is being replayed, we
+ * start listening for live updates _before_ replaying the history, but buffer
+ * them until the replay is complete. Afterward, the buffer is flushed, and the
+ * subscriber switches over to live delivery.
+ * As updates may show up both in the history and the live buffer, we keep
+ * track of the replayed update IDs and drop duplicates. Transports deliver
+ * updates in order, so once we encounter the first update that wasn't part of
+ * the history, no further duplicates can follow, and we can stop checking.
+ *
+ * Updates are handed to the subscriber strictly in order: The event stream
+ * queues writes in the order they are issued, so we don't need to wait for
+ * every single write to complete.
+ *
+ * @param hub Hub to subscribe to.
+ * @param subscriber Subscriber to deliver updates to.
+ * @param options Bootstrap options.
+ * @param options.lastEventId Last event ID sent by the client, if any.
+ * @param options.anonymousAccess Whether anonymous access is enabled.
+ * @returns A function that stops the update delivery.
+ */
+async function bootstrap(
   hub: Hub,
   subscriber: Subscriber,
   { anonymousAccess, lastEventId }: { lastEventId?: string; anonymousAccess?: boolean } = {},
 ) {
-  const updates = hub.eventsAfter(
-    lastEventId ?? earliestEventId,
+  let buffer: [Update, Uint8Array][] | undefined = [];
+  let replayed: Set<string> | undefined = new Set();
+
+  const deliver = (update: Update, frame: Uint8Array) => {
+    if (replayed?.has(update.id)) {
+      return;
+    }
+
+    replayed = undefined;
+    void sendUpdate(subscriber, update, anonymousAccess, frame);
+  };
+
+  const unsubscribe = hub.subscribe(
+    subscriber,
+    (update, frame) => buffer ? buffer.push([update, frame]) : deliver(update, frame),
   );
 
-  for await (const update of updates) {
-    void sendUpdate(subscriber, update, anonymousAccess);
+  if (lastEventId) {
+    try {
+      for await (const update of hub.eventsAfter(lastEventId)) {
+        replayed?.add(update.id);
+        void sendUpdate(subscriber, update, anonymousAccess);
+      }
+    } catch (error) {
+      // Clients resuming after an update that has been evicted from the
+      // history already can only receive live updates from now on.
+      if (error instanceof UnknownEventIdError) {
+        Log.debug(`Not replaying any updates: ${error.message}`);
+      } else {
+        unsubscribe();
+
+        throw error;
+      }
+    }
   }
+
+  // Flush the buffer and switch over to live delivery. There is no
+  // asynchronous gap between the two, so no update can slip through.
+  buffer.forEach(([update, frame]) => deliver(update, frame));
+  buffer = undefined;
+
+  return unsubscribe;
 }
 
 function extractLastEventId(request: Request) {
@@ -0,0 +1,345 @@
+import { assertEquals, assertRejects } from "@std/assert";
+import type { Configuration } from "../config/mod.ts";
+import { Hub } from "../hub.ts";
+import { mercurePath } from "../routes.ts";
+import { createTestConfiguration, EventStreamReader, issueTestToken } from "../test_utilities.ts";
+import { MemoryTransport } from "../transports/memory.ts";
+import type { Update } from "../updates.ts";
+import { HttpError } from "./_errors.ts";
+import { handlePublication } from "./publication.ts";
+import { handleSubscription } from "./subscription.ts";
+
+const baseUrl = new URL(`https://example.com${mercurePath}`);
+const topic = "https://example.com/books/1";
+
+Deno.test("Private updates", async (ctx) => {
+  const config = await createTestConfiguration({ anonymousAccess: true });
+  const publisherToken = await issueTestToken(config, { publish: [topic] });
+  const authorizedToken = await issueTestToken(config, { subscribe: [topic] });
+  const unauthorizedToken = await issueTestToken(config, {
+    subscribe: ["https://example.com/books/2"],
+  });
+
+  await ctx.step("Unauthorized subscribers do not receive private updates", async () => {
+    const hub = new Hub(new MemoryTransport());
+    const subscriber = await subscribe(hub, config, { token: unauthorizedToken });
+
+    await publish(hub, config, publisherToken, { id: "private", private: "on" });
+    await publish(hub, config, publisherToken, { id: "public" });
+
+    const events = await subscriber.read();
+    await subscriber.close();
+
+    assertEquals(events.map(({ id }) => id), ["public"]);
+  });
+
+  await ctx.step("Anonymous subscribers do not receive private updates", async () => {
+    const hub = new Hub(new MemoryTransport());
+    const subscriber = await subscribe(hub, config);
+
+    await publish(hub, config, publisherToken, { id: "private", private: "" });
+    await publish(hub, config, publisherToken, { id: "public" });
+
+    const events = await subscriber.read();
+    await subscriber.close();
+
+    assertEquals(events.map(({ id }) => id), ["public"]);
+  });
+
+  await ctx.step("Authorized subscribers receive private updates", async () => {
+    const hub = new Hub(new MemoryTransport());
+    const subscriber = await subscribe(hub, config, { token: authorizedToken });
+
+    await publish(hub, config, publisherToken, { id: "private", private: "on" });
+    await publish(hub, config, publisherToken, { id: "public" });
+
+    const events = await subscriber.read();
+    await subscriber.close();
+
+    assertEquals(events.map(({ id }) => id), ["private", "public"]);
+  });
+
+  await ctx.step("Private updates are not replayed to unauthorized subscribers", async () => {
+    const hub = new Hub(new MemoryTransport());
+
+    await publish(hub, config, publisherToken, { id: "private", private: "on" });
+    await publish(hub, config, publisherToken, { id: "public" });
+
+    const subscriber = await subscribe(hub, config, {
+      token: unauthorizedToken,
+      lastEventId: "earliest",
+    });
+    const events = await subscriber.read();
+    await subscriber.close();
+
+    assertEquals(events.map(({ id }) => id), ["public"]);
+  });
+
+  await ctx.step("Private updates are replayed to authorized subscribers", async () => {
+    const hub = new Hub(new MemoryTransport());
+
+    await publish(hub, config, publisherToken, { id: "private", private: "on" });
+    await publish(hub, config, publisherToken, { id: "public" });
+
+    const subscriber = await subscribe(hub, config, {
+      token: authorizedToken,
+      lastEventId: "earliest",
+    });
+    const events = await subscriber.read();
+    await subscriber.close();
+
+    assertEquals(events.map(({ id }) => id), ["private", "public"]);
+  });
+
+  await ctx.step("Private updates are marked as such in the transport", async () => {
+    const hub = new Hub(new MemoryTransport());
+
+    await publish(hub, config, publisherToken, { id: "private", private: "on" });
+    await publish(hub, config, publisherToken, { id: "public" });
+
+    const updates = await Array.fromAsync(hub.eventsAfter());
+
+    assertEquals(
+      updates.map(({ id, private: confidential }) => [id, confidential]),
+      [["private", true], ["public", false]],
+    );
+  });
+});
+
+Deno.test("Replay and live delivery", async (ctx) => {
+  const config = await createTestConfiguration({ anonymousAccess: true });
+  const publisherToken = await issueTestToken(config, { publish: [topic] });
+
+  await ctx.step("Deliver updates published during the replay", async () => {
+    const transport = new ReplayHookTransport();
+    const hub = new Hub(transport);
+
+    await publish(hub, config, publisherToken, { id: "first" });
+    await publish(hub, config, publisherToken, { id: "second" });
+    await publish(hub, config, publisherToken, { id: "third" });
+
+    transport.onReplay = async ({ id }) => {
+      if (id === "second") {
+        await publish(hub, config, publisherToken, { id: "fourth" });
+      }
+    };
+
+    const subscriber = await subscribe(hub, config, { lastEventId: "first" });
+    await publish(hub, config, publisherToken, { id: "fifth" });
+
+    const events = await subscriber.read();
+    await subscriber.close();
+
+    assertEquals(events.map(({ id }) => id), ["second", "third", "fourth", "fifth"]);
+  });
+
+  await ctx.step("Drop live updates already delivered by the replay", async () => {
+    const transport = new ReplayHookTransport();
+    const hub = new Hub(transport);
+
+    await publish(hub, config, publisherToken, { id: "first" });
+    await publish(hub, config, publisherToken, { id: "second" });
+    const [, second] = await Array.fromAsync(hub.eventsAfter());
+
+    // Simulate a transport whose live stream lags behind the history, so
+    // the second update is received both from the replay and live.
+    transport.onReplay = async ({ id }) => {
+      if (id === "first") {
+        hub.dispatchEvent(new MessageEvent("update", { data: second }));
+        await publish(hub, config, publisherToken, { id: "third" });
+      }
+    };
+
+    const subscriber = await subscribe(hub, config, { lastEventId: "earliest" });
+    const events = await subscriber.read();
+    await subscriber.close();
+
+    assertEquals(events.map(({ id }) => id), ["first", "second", "third"]);
+  });
+
+  await ctx.step("Set the last event ID header to the last replayed update", async () => {
+    const hub = new Hub(new MemoryTransport());
+
+    await publish(hub, config, publisherToken, { id: "first" });
+    await publish(hub, config, publisherToken, { id: "second" });
+
+    const subscriber = await subscribe(hub, config, { lastEventId: "first" });
+    await subscriber.close();
+
+    assertEquals(subscriber.response.headers.get("last-event-id"), "second");
+  });
+});
+
+Deno.test("Token expiration", async (ctx) => {
+  await ctx.step("Close the connection once the token expires", async () => {
+    const config = await createTestConfiguration();
+    const token = await issueTestToken(config, { subscribe: [topic], expire: "1s" });
+    const hub = new Hub(new MemoryTransport());
+
+    const subscriber = await subscribe(hub, config, { token });
+    assertEquals(hub.subscriptions, 1);
+
+    // The stream ends once the token has expired, so this returns early
+    const events = await subscriber.read(Infinity, 3_000);
+    await subscriber.close();
+
+    assertEquals(events.flatMap(({ comments }) => comments), [
+      "Token expired: Refresh the authorization token before reconnecting",
+    ]);
+    assertEquals(hub.subscriptions, 0);
+  });
+
+  await ctx.step("Keep the connection open during the grace period", async () => {
+    const config = await createTestConfiguration({ expirationGracePeriod: 60_000 });
+    const token = await issueTestToken(config, { subscribe: [topic], expire: "1s" });
+    const hub = new Hub(new MemoryTransport());
+
+    const subscriber = await subscribe(hub, config, { token });
+    await subscriber.read(Infinity, 1_500);
+
+    assertEquals(hub.subscriptions, 1);
+    await subscriber.close();
+  });
+});
+
+Deno.test("Publication acknowledgement", async (ctx) => {
+  const config = await createTestConfiguration({ anonymousAccess: true, writeTimeout: 10 });
+  const publisherToken = await issueTestToken(config, { publish: [topic] });
+
+  await ctx.step("Respond once the update has been stored", async () => {
+    const hub = new Hub(new MemoryTransport());
+
+    const response = await publish(hub, config, publisherToken, { id: "first" });
+    const updates = await Array.fromAsync(hub.eventsAfter());
+
+    assertEquals(response.status, 200);
+    assertEquals(updates.map(({ id }) => id), ["first"]);
+  });
+
+  await ctx.step("Ask to retry if the transport fails to store the update", async () => {
+    const transport = new UnavailableTransport();
+    transport.error = new Error("Connection refused");
+    const hub = new Hub(transport);
+
+    const error = await assertRejects(
+      () => publish(hub, config, publisherToken, { id: "first" }),
+      HttpError,
+      "Connection refused",
+    );
+
+    assertEquals(error.status, 503);
+    assertEquals(new Headers(error.headers).get("retry-after"), "5");
+  });
+
+  await ctx.step("Ask to retry if storing the update times out", async () => {
+    const transport = new UnavailableTransport();
+    const hub = new Hub(transport);
+
+    const error = await assertRejects(
+      () => publish(hub, config, publisherToken, { id: "first" }),
+      HttpError,
+    );
+
+    assertEquals(error.status, 503);
+    assertEquals(new Headers(error.headers).get("retry-after"), "5");
+  });
+});
+
+/**
+ * Memory transport that fails to publish updates, either by rejecting them or
+ * by never acknowledging them at all.
+ */
+class UnavailableTransport extends MemoryTransport {
+  public error: Error | undefined;
+
+  public override publish(_update: Update, signal?: AbortSignal) {
+    if (this.error) {
+      return Promise.reject(this.error);
+    }
+
+    return new Promise<void>((_resolve, reject) => {
+      signal?.addEventListener("abort", () => reject(signal.reason), { once: true });
+    });
+  }
+}
+
+/**
+ * Memory transport that invokes a callback for every replayed update.
+ *
+ * This allows to simulate updates being published while a subscriber is still
+ * catching up on the history. Like a range query against a database, the
+ * history is read as a snapshot, so updates published during the replay will
+ * not be part of it.
+ */
+class ReplayHookTransport extends MemoryTransport {
+  public onReplay: ((update: Update) => Promise<unknown>) | undefined;
+
+  public override async *eventsAfter(lastEventId?: string) {
+    const updates = await Array.fromAsync(super.eventsAfter(lastEventId));
+
+    for (const update of updates) {
+      yield update;
+
+      await this.onReplay?.(update);
+    }
+  }
+}
+
+async function publish(
+  hub: Hub,
+  config: Configuration,
+  token: string,
+  fields: Record<string, string>,
+) {
+  const request = new Request(baseUrl, {
+    method: "POST",
+    headers: {
+      "authorization": `Bearer ${token}`,
+      "content-type": "application/x-www-form-urlencoded",
+    },
+    body: new URLSearchParams({ topic, data: "{}", ...fields }),
+  });
+
+  return await handlePublication({
+    request,
+    config,
+    hub,
+    parameters: {},
+    url: new URL(request.url),
+  });
+}
+
+async function subscribe(
+  hub: Hub,
+  config: Configuration,
+  { token, lastEventId }: { token?: string; lastEventId?: string } = {},
+) {
+  const controller = new AbortController();
+  const url = new URL(baseUrl);
+  url.searchParams.set("topic", topic);
+
+  const request = new Request(url, {
+    headers: {
+      ...token ? { "authorization": `Bearer ${token}` } : undefined,
+      ...lastEventId ? { "last-event-id": lastEventId } : undefined,
+    },
+    signal: controller.signal,
+  });
+  const response = await handleSubscription({
+    request,
+    config,
+    hub,
+    parameters: {},
+    url,
+  });
+  const reader = new EventStreamReader(response);
+
+  return {
+    response,
+    read: (count?: number, timeout?: number) => reader.read(count, timeout),
+    async close() {
+      controller.abort();
+      await reader.cancel();
+    },
+  };
+}
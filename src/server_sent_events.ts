@@ -0,0 +1,106 @@
+import type { Update } from "./updates.ts";
+
+/**
+ * Encodes an update as a `text/event-stream` compliant event.
+ *
+ * The update properties are mapped to the fields defined by the
+ * {@link https://html.spec.whatwg.org/multipage/server-sent-events.html#parsing-an-event-stream|
+ * Server-Sent Events specification}: The type becomes the `event` field, the
+ * retry the `retry` field, the ID the `id` field, and the data is split into
+ * one `data` field per line, so multi-line payloads survive the transfer.
+ *
+ * The `id` field is written last, so clients only update their last event ID
+ * once the full event has been received.
+ *
+ * @param update Update to encode.
+ * @returns The encoded event, including the terminating blank line.
+ * @see https://mercure.rocks/spec#subscription Mercure Spec: Subscription
+ */
+export function encodeEvent({ id, type, retry, data }: Update) {
+  let buffer = "";
+
+  if (type) {
+    buffer += field("event", type);
+  }
+
+  if (typeof retry === "number" && Number.isInteger(retry) && retry >= 0) {
+    buffer += field("retry", retry.toString());
+  }
+
+  // Events without a data field are discarded by the EventSource interface,
+  // so we always send at least one, even if the update does not carry data.
+  for (const line of splitLines(data ?? "")) {
+    buffer += `data: ${line}\n`;
+  }
+
+  buffer += field("id", id);
+
+  return buffer + "\n";
+}
+
+/**
+ * Encodes an update as a `text/event-stream` compliant event, ready to be
+ * written to event streams.
+ *
+ * When an update is fanned out to many subscribers, the frame is encoded once
+ * and shared between all of them, so it must not be modified.
+ *
+ * @param update Update to encode.
+ * @returns The encoded event as UTF-8 bytes.
+ */
+export function encodeEventFrame(update: Update) {
+  return encoder.encode(encodeEvent(update));
+}
+
+/**
+ * Encodes a comment as a `text/event-stream` compliant block.
+ *
+ * Comments are ignored by clients, which makes them useful for keeping the
+ * connection alive or conveying diagnostic information.
+ *
+ * @param comment Comment to encode. May span multiple lines.
+ * @returns The encoded comment, including the terminating blank line.
+ */
+export function encodeComment(comment: string) {
+  return splitLines(comment)
+    .map((line) => `:${line}\n`)
+    .join("") + "\n";
+}
+
+/**
+ * Encodes a reconnection delay hint as a `text/event-stream` compliant block.
+ *
+ * The block carries no data, so clients don't dispatch an event for it, but
+ * wait for the given delay before reconnecting once the connection closes.
+ *
+ * @param retry Reconnection delay in milliseconds.
+ * @returns The encoded field, including the terminating blank line.
+ */
+export function encodeRetry(retry: number) {
+  return field("retry", Math.max(0, Math.trunc(retry)).toString()) + "\n";
+}
+
+/**
+ * Encodes a single-line field.
+ *
+ * Line breaks would terminate the field prematurely and allow injecting
+ * arbitrary fields into the stream, so they are stripped from the value.
+ *
+ * @param name Name of the field.
+ * @param value Value of the field.
+ */
+function field(name: string, value: string) {
+  return `${name}: ${value.replace(lineBreaks, "")}\n`;
+}
+
+/**
+ * Splits a string on every line break recognized by the event stream parser.
+ *
+ * @param value String to split.
+ */
+function splitLines(value: string) {
+  return value.split(lineBreaks);
+}
+
+const lineBreaks = /\r\n|\r|\n/g;
+const encoder = new TextEncoder();
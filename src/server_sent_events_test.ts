@@ -0,0 +1,98 @@
+import { assertEquals } from "@std/assert";
+import { encodeComment, encodeEvent, encodeEventFrame, encodeRetry } from "./server_sent_events.ts";
+
+Deno.test("Server-Sent Events encoding", async (ctx) => {
+  await ctx.step("Encode an update with data", () => {
+    const frame = encodeEvent({
+      id: "urn:uuid:1",
+      canonicalTopic: "https://example.com/foo",
+      alternateTopics: [],
+      data: "hello",
+    });
+
+    assertEquals(frame, "data: hello\nid: urn:uuid:1\n\n");
+  });
+
+  await ctx.step("Encode all fields", () => {
+    const frame = encodeEvent({
+      id: "urn:uuid:1",
+      canonicalTopic: "https://example.com/foo",
+      alternateTopics: [],
+      data: "hello",
+      type: "greeting",
+      retry: 5000,
+    });
+
+    assertEquals(
+      frame,
+      "event: greeting\nretry: 5000\ndata: hello\nid: urn:uuid:1\n\n",
+    );
+  });
+
+  await ctx.step("Split multi-line data into several data fields", () => {
+    const frame = encodeEvent({
+      id: "urn:uuid:1",
+      canonicalTopic: "https://example.com/foo",
+      alternateTopics: [],
+      data: "first\nsecond\r\nthird\rfourth",
+    });
+
+    assertEquals(
+      frame,
+      "data: first\ndata: second\ndata: third\ndata: fourth\nid: urn:uuid:1\n\n",
+    );
+  });
+
+  await ctx.step("Send an empty data field for updates without data", () => {
+    const frame = encodeEvent({
+      id: "urn:uuid:1",
+      canonicalTopic: "https://example.com/foo",
+      alternateTopics: [],
+    });
+
+    assertEquals(frame, "data: \nid: urn:uuid:1\n\n");
+  });
+
+  await ctx.step("Strip line breaks from single-line fields", () => {
+    const frame = encodeEvent({
+      id: "urn:uuid:1\ndata: injected",
+      canonicalTopic: "https://example.com/foo",
+      alternateTopics: [],
+      type: "foo\r\nbar",
+    });
+
+    assertEquals(frame, "event: foobar\ndata: \nid: urn:uuid:1data: injected\n\n");
+  });
+
+  await ctx.step("Omit invalid retry values", () => {
+    const frame = encodeEvent({
+      id: "urn:uuid:1",
+      canonicalTopic: "https://example.com/foo",
+      alternateTopics: [],
+      retry: 1.5,
+    });
+
+    assertEquals(frame, "data: \nid: urn:uuid:1\n\n");
+  });
+
+  await ctx.step("Encode an update as a frame of UTF-8 bytes", () => {
+    const frame = encodeEventFrame({
+      id: "urn:uuid:1",
+      canonicalTopic: "https://example.com/foo",
+      alternateTopics: [],
+      data: "💓",
+    });
+
+    assertEquals(new TextDecoder().decode(frame), "data: 💓\nid: urn:uuid:1\n\n");
+  });
+
+  await ctx.step("Encode a comment", () => {
+    assertEquals(encodeComment("💓"), ":💓\n\n");
+    assertEquals(encodeComment("first\nsecond"), ":first\n:second\n\n");
+  });
+
+  await ctx.step("Encode a reconnection delay hint", () => {
+    assertEquals(encodeRetry(5000), "retry: 5000\n\n");
+    assertEquals(encodeRetry(2.5), "retry: 2\n\n");
+  });
+});
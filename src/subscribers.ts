@@ -1,4 +1,5 @@
 import * as Log from "@std/log";
+import {encodeComment, encodeEventFrame, encodeRetry} from "./server_sent_events.ts";
 import type {Subscription} from "./subscriptions.ts";
 import type {TopicSelector} from "./topic.ts";
 import {generateId, type Update} from "./updates.ts";
@@ -74,6 +75,17 @@ export class Subscriber {
      */
     #heartbeatTimer: number | undefined;
 
+    /**
+     * The timer used to close the connection once it expires.
+     *
+     * If the subscriber authorized with a token, the connection expires along
+     * with it, so clients have to present a fresh token to keep receiving
+     * updates.
+     *
+     * @private
+     */
+    #expirationTimer: number | undefined;
+
     /**
      * The last event ID sent to the subscriber.
      *
@@ -109,6 +121,8 @@ export class Subscriber {
         this.#stream = stream;
         this.#lastEventId = lastEventId;
         this.#active = active;
+
+        stream.addEventListener("overflow", (event) => this.#evict(event as CustomEvent<Overflow>));
     }
 
     /**
@@ -170,10 +184,12 @@ export class Subscriber {
      */
     public async close() {
         this.disableHeartbeats();
+        clearTimeout(this.#expirationTimer);
+        this.#expirationTimer = undefined;
         this.#active = false;
 
         try {
-            return await this.#stream.close();
+            return await this.#stream.close(closeTimeout);
         } finally {
             this.#target.dispatchEvent(new Event("close"));
         }
@@ -183,15 +199,18 @@ export class Subscriber {
      * Dispatches an update to the subscriber.
      *
      * @param update Update to dispatch to the subscriber.
+     * @param [frame] Update encoded as an event frame already. When fanning
+     *                out an update, the same frame is shared by all
+     *                subscribers, instead of encoding it for each of them.
      */
-    public async dispatch(update: Update) {
+    public async dispatch(update: Update, frame?: Uint8Array) {
         try {
             // Update the last event ID to the ID of the dispatched update.
             // We do this before writing to the stream to ensure that the last
             // event ID can be included in the response headers immediately.
             this.#lastEventId = update.id;
 
-            await this.#stream.write(`data: ${JSON.stringify(update)}\n\n`);
+            await this.#stream.write(frame ?? encodeEventFrame(update));
 
             this.#target.dispatchEvent(
                 new MessageEvent("message", { data: update }),
@@ -233,6 +252,29 @@ export class Subscriber {
         this.#heartbeatTimer = undefined;
     }
 
+    /**
+     * Closes the connection to the subscriber at the given time.
+     *
+     * This is used to end the connection once the token of the subscriber
+     * expires. Before closing, a comment explaining the reason is sent, so
+     * clients know to refresh their token before reconnecting. Calling this
+     * method again replaces the previous expiration time.
+     *
+     * @param expiration Time to close the connection at.
+     */
+    public expireAt(expiration: Date) {
+        clearTimeout(this.#expirationTimer);
+
+        const delay = Math.max(0, expiration.getTime() - Date.now());
+
+        // Timers fire immediately if their delay exceeds the maximum, so long
+        // delays are covered by multiple timers instead.
+        this.#expirationTimer = setTimeout(
+            () => delay > maxTimerDelay ? this.expireAt(expiration) : void this.#expire(),
+            Math.min(delay, maxTimerDelay),
+        );
+    }
+
     /**
      * Adds an event listener to the subscriber.
      *
@@ -289,6 +331,51 @@ export class Subscriber {
         return JSON.stringify(this, null, 4);
     }
 
+    /**
+     * Handles the subscriber exceeding the buffer limits of its stream.
+     *
+     * If the stream disconnected the subscriber, it is closed, so it stops
+     * receiving updates and can be cleaned up.
+     *
+     * @private
+     */
+    #evict({ detail }: CustomEvent<Overflow>) {
+        this.#target.dispatchEvent(new CustomEvent("evict", { detail }));
+
+        if (detail.policy === "disconnect") {
+            Log.warn("Disconnecting subscriber unable to keep up with updates", {
+                subscriber: this.id,
+                dropped: detail.dropped,
+            });
+
+            void this.close();
+        } else {
+            Log.debug("Dropped updates for subscriber unable to keep up", {
+                subscriber: this.id,
+                dropped: detail.dropped,
+            });
+        }
+    }
+
+    /**
+     * Closes the connection once it has expired.
+     *
+     * @private
+     */
+    async #expire() {
+        this.#expirationTimer = undefined;
+        Log.debug("Closing connection of subscriber with expired token", {
+            subscriber: this.id,
+        });
+
+        // Clients that stopped reading would never receive the reason, so we
+        // don't wait for it to be written before closing the connection.
+        void this.#stream.write(
+            encodeComment("Token expired: Refresh the authorization token before reconnecting"),
+        );
+        await this.close();
+    }
+
     /**
      * Sends a heartbeat message to the subscriber.
      *
@@ -300,41 +387,357 @@ export class Subscriber {
         }
 
         if (this.#stream) {
-            await this.#stream.write(":💓\n\n");
+            await this.#stream.write(encodeComment("💓"));
             this.#target.dispatchEvent(new Event("heartbeat"));
         }
     }
 }
 
+/**
+ * Time to wait for a client to read the messages still waiting to be written
+ * when closing its connection, in milliseconds.
+ */
+const closeTimeout = 5_000;
+
+/**
+ * Maximum delay of a timer, in milliseconds. Timers with a longer delay fire
+ * immediately.
+ */
+const maxTimerDelay = 2 ** 31 - 1;
+
 type EventMap = {
     message: MessageEvent<Update>;
     heartbeat: Event;
+    evict: CustomEvent<Overflow>;
     close: Event;
 };
 
-export class EventStream {
+/**
+ * Writes chunks to the connection of a subscriber, strictly in order.
+ *
+ * Chunks are queued until the connection accepts them. A client that stops
+ * reading, such as a mobile client on a stalled network, would make the queue
+ * grow forever, so it may be limited by the number of messages and bytes
+ * waiting to be written. Once a client exceeds either limit, the overflow
+ * policy applies:
+ *
+ *  - `drop-oldest` drops the oldest waiting messages until the queue is within
+ *    its limits again, and writes a comment in their place, so the gap shows in
+ *    the stream. The newest message is always kept.
+ *  - `disconnect` drops all waiting messages, and ends the stream right away
+ *    with a reconnection delay hint, as a client that doesn't read would never
+ *    receive anything else. Clients resuming from their last event ID receive
+ *    the missed updates from the history.
+ *
+ * Either way, an `overflow` event is dispatched.
+ */
+export class EventStream extends EventTarget {
     readonly #encoder = new TextEncoder();
     readonly #stream: WritableStreamDefaultWriter<Uint8Array>;
+    readonly #abort: (reason: Error, hint?: Uint8Array) => void;
+    readonly #queue: PendingChunk[] = [];
+    #limits: Required<BufferLimits> | undefined;
+    #draining: Promise<void> | undefined;
+    #closed = false;
+    #aborted = false;
+
+    /**
+     * Number of bytes of limited chunks waiting to be written.
+     */
+    #bytes = 0;
 
-    public constructor(stream: WritableStream<Uint8Array>) {
+    /**
+     * Number of chunks at the head of the queue that were queued before the
+     * limits applied, and don't count towards them.
+     */
+    #exempt = 0;
+
+    /**
+     * Creates a new event stream writing to the given stream.
+     *
+     * @param stream Stream to write to.
+     * @param [abort] Function tearing the stream down. Writable streams only
+     *                abort once the chunk being written has been accepted,
+     *                which never happens if the client stopped reading, so
+     *                streams feeding a response should pass a function
+     *                ending the response body instead. If given a hint, it
+     *                should be the last chunk the client receives. Defaults
+     *                to aborting the writable stream, dropping the hint.
+     */
+    public constructor(
+        stream: WritableStream<Uint8Array>,
+        abort?: (reason: Error, hint?: Uint8Array) => void,
+    ) {
+        super();
         this.#stream = stream.getWriter();
+        this.#abort = abort ?? ((reason) => void this.#stream.abort(reason).catch(() => {}));
     }
 
-    public close() {
-        return this.#stream.close();
+    /**
+     * Number of messages waiting to be written, counting towards the limits.
+     */
+    public get bufferedMessages() {
+        return this.#queue.length - this.#exempt;
     }
 
-    public async write(input: Uint8Array | string) {
+    /**
+     * Number of bytes waiting to be written, counting towards the limits.
+     */
+    public get bufferedBytes() {
+        return this.#bytes;
+    }
+
+    /**
+     * Limits the messages waiting to be written from now on.
+     *
+     * Messages queued already don't count towards the limits: The history
+     * replayed to a resuming client is queued before its response has even
+     * been sent, so the client had no chance to read it yet.
+     *
+     * @param limits Limits of the queue, and the policy applied when a client
+     *               exceeds them.
+     */
+    public limit(limits: BufferLimits) {
+        this.#limits = {
+            maxMessages: limits.maxMessages ?? Infinity,
+            maxBytes: limits.maxBytes ?? Infinity,
+            policy: limits.policy ?? "disconnect",
+            retry: limits.retry ?? 5_000,
+        };
+        this.#exempt = this.#queue.length;
+        this.#bytes = 0;
+    }
+
+    /**
+     * Closes the stream once all messages waiting to be written have been
+     * written.
+     *
+     * @param [timeout] Time to wait for the client to read the messages, in
+     *                  milliseconds. If it passes, the stream is aborted.
+     */
+    public async close(timeout?: number) {
+        if (this.#closed) {
+            return;
+        }
+
+        this.#closed = true;
+
+        const closing = this.#end();
+
+        if (timeout === undefined) {
+            return await closing;
+        }
+
+        let timer: number | undefined;
+        const expired = new Promise<boolean>((resolve) => {
+            timer = setTimeout(() => resolve(true), timeout);
+        });
+
         try {
-            if (typeof input === "string") {
-                input = this.#encoder.encode(input);
+            if (await Promise.race([closing.then(() => false), expired])) {
+                this.abort(new Error("Timed out waiting for the client to read"));
             }
+        } finally {
+            clearTimeout(timer);
+        }
+    }
 
-            await this.#stream.write(input);
-        } catch {
-            Log.error("Error writing to stream");
+    /**
+     * Aborts the stream immediately, dropping all messages waiting to be
+     * written.
+     *
+     * @param reason Reason for aborting the stream.
+     * @param [hint] Chunk to deliver to the client before the stream ends.
+     * @returns The number of messages dropped.
+     */
+    public abort(reason: Error, hint?: Uint8Array) {
+        const dropped = this.#queue.splice(0);
+
+        this.#exempt = 0;
+        this.#bytes = 0;
+        this.#closed = true;
+        dropped.forEach(({ written }) => written.resolve());
+
+        if (!this.#aborted) {
+            this.#aborted = true;
+            this.#abort(reason, hint);
         }
 
+        return dropped.length;
+    }
+
+    /**
+     * Writes a chunk to the stream.
+     *
+     * The returned promise resolves once the chunk has been written, or has
+     * been dropped to make room for newer messages.
+     *
+     * @param input Chunk to write. Strings are encoded as UTF-8.
+     */
+    public async write(input: Uint8Array | string) {
+        if (this.#closed) {
+            return this;
+        }
+
+        const chunk = typeof input === "string" ? this.#encoder.encode(input) : input;
+        const written = Promise.withResolvers<void>();
+
+        this.#queue.push({ chunk, written });
+        this.#bytes += chunk.byteLength;
+
+        if (this.#overflowing()) {
+            this.#overflow(this.#limits!);
+        }
+
+        this.#draining ??= this.#drain().finally(() => this.#draining = undefined);
+        await written.promise;
+
         return this;
     }
+
+    async #drain() {
+        while (this.#queue.length > 0) {
+            const { chunk, written, dropped } = this.#queue.shift()!;
+
+            if (this.#exempt > 0) {
+                this.#exempt--;
+            } else {
+                this.#bytes -= chunk.byteLength;
+            }
+
+            try {
+                if (dropped) {
+                    await this.#stream.write(
+                        this.#encoder.encode(encodeComment(`Messages dropped: ${dropped}`)),
+                    );
+                }
+
+                await this.#stream.write(chunk);
+            } catch {
+                if (!this.#aborted) {
+                    Log.error("Error writing to stream");
+                }
+            }
+
+            written.resolve();
+        }
+    }
+
+    async #end() {
+        if (this.#draining) {
+            await this.#draining;
+        }
+
+        try {
+            await this.#stream.close();
+        } catch {
+            // The client may have gone away while the queue was drained, in
+            // which case there is nothing left to close.
+        }
+    }
+
+    #overflowing() {
+        return this.#limits !== undefined && (
+            this.bufferedMessages > this.#limits.maxMessages ||
+            this.#bytes > this.#limits.maxBytes
+        );
+    }
+
+    #overflow({ maxMessages, maxBytes, policy, retry }: Required<BufferLimits>) {
+        if (policy === "disconnect") {
+            const hint = encodeComment("Disconnected: Too many messages pending") +
+                encodeRetry(retry);
+            const dropped = this.abort(
+                new Error("Too many messages pending"),
+                this.#encoder.encode(hint),
+            );
+
+            this.#dispatchOverflow(policy, dropped);
+
+            return;
+        }
+
+        // Exempt chunks are at the head of the queue, and the newest chunk at
+        // its end; neither of them is ever dropped.
+        let messages = this.bufferedMessages;
+        let count = 0;
+        let gap = 0;
+
+        while (messages > 1 && (messages > maxMessages || this.#bytes > maxBytes)) {
+            const pending = this.#queue[this.#exempt + count];
+            this.#bytes -= pending.chunk.byteLength;
+            gap += 1 + (pending.dropped ?? 0);
+            messages--;
+            count++;
+        }
+
+        const dropped = this.#queue.splice(this.#exempt, count);
+
+        // Flag the gap in front of the oldest message left, so the client can
+        // tell where messages are missing.
+        const next = this.#queue[this.#exempt];
+        next.dropped = (next.dropped ?? 0) + gap;
+
+        // Dropped messages are done, so callers waiting for them may move on
+        dropped.forEach(({ written }) => written.resolve());
+
+        this.#dispatchOverflow(policy, dropped.length);
+    }
+
+    #dispatchOverflow(policy: OverflowPolicy, dropped: number) {
+        this.dispatchEvent(
+            new CustomEvent<Overflow>("overflow", {
+                detail: { policy, dropped },
+            }),
+        );
+    }
 }
+
+/**
+ * Limits of the messages waiting to be written to a subscriber.
+ */
+export type BufferLimits = {
+    /**
+     * Maximum number of messages waiting to be written.
+     */
+    maxMessages?: number;
+
+    /**
+     * Maximum number of bytes waiting to be written.
+     */
+    maxBytes?: number;
+
+    /**
+     * Policy applied to clients exceeding either limit.
+     */
+    policy?: OverflowPolicy;
+
+    /**
+     * Reconnection delay hinted to disconnected clients, in milliseconds.
+     */
+    retry?: number;
+};
+
+export type OverflowPolicy = "drop-oldest" | "disconnect";
+
+/**
+ * Details of a client exceeding its buffer limits.
+ */
+export type Overflow = {
+    policy: OverflowPolicy;
+
+    /**
+     * Number of messages dropped.
+     */
+    dropped: number;
+};
+
+type PendingChunk = {
+    chunk: Uint8Array;
+    written: PromiseWithResolvers<void>;
+
+    /**
+     * Number of messages dropped right before this one.
+     */
+    dropped?: number;
+};
@@ -0,0 +1,260 @@
+import { assert, assertEquals, assertRejects } from "@std/assert";
+import { EventStream, type Overflow, Subscriber } from "./subscribers.ts";
+import { createUpdate } from "./test_utilities.ts";
+
+Deno.test("Event stream buffer limits", async (ctx) => {
+  await ctx.step("Write chunks in order", async () => {
+    const client = createClient();
+    const stream = new EventStream(client.stream);
+    client.resume();
+
+    await Promise.all(["a", "b", "c"].map((chunk) => stream.write(chunk)));
+
+    assertEquals(client.chunks, ["a", "b", "c"]);
+  });
+
+  await ctx.step("Drop the oldest messages exceeding the message limit", async () => {
+    const client = createClient();
+    const stream = new EventStream(client.stream);
+    const overflows = collectOverflows(stream);
+    stream.limit({ maxMessages: 2, policy: "drop-oldest" });
+
+    const writes = ["a", "b", "c", "d", "e"].map((chunk) => stream.write(chunk));
+
+    assertEquals(stream.bufferedMessages, 2);
+    assertEquals(overflows, [
+      { policy: "drop-oldest", dropped: 1 },
+      { policy: "drop-oldest", dropped: 1 },
+    ]);
+
+    client.resume();
+    await Promise.all(writes);
+
+    assertEquals(client.chunks, ["a", ":Messages dropped: 2\n\n", "d", "e"]);
+  });
+
+  await ctx.step("Drop the oldest messages exceeding the byte limit", async () => {
+    const client = createClient();
+    const stream = new EventStream(client.stream);
+    stream.limit({ maxBytes: 4, policy: "drop-oldest" });
+
+    const writes = ["x", "aa", "bb", "cc"].map((chunk) => stream.write(chunk));
+
+    assertEquals(stream.bufferedBytes, 4);
+
+    client.resume();
+    await Promise.all(writes);
+
+    assertEquals(client.chunks, ["x", ":Messages dropped: 1\n\n", "bb", "cc"]);
+  });
+
+  await ctx.step("Keep the newest message, even if it exceeds the byte limit", async () => {
+    const client = createClient();
+    const stream = new EventStream(client.stream);
+    stream.limit({ maxBytes: 2, policy: "drop-oldest" });
+
+    const writes = ["x", "a", "large"].map((chunk) => stream.write(chunk));
+
+    client.resume();
+    await Promise.all(writes);
+
+    assertEquals(client.chunks, ["x", ":Messages dropped: 1\n\n", "large"]);
+  });
+
+  await ctx.step("Disconnect clients exceeding the limits, even if they never read", async () => {
+    const { stream } = createStalledStream();
+    const overflows = collectOverflows(stream);
+    stream.limit({ maxMessages: 1, policy: "disconnect" });
+
+    const writes = ["a", "b", "c"].map((chunk) => stream.write(chunk));
+    await stream.write("d");
+
+    assertEquals(overflows, [{ policy: "disconnect", dropped: 2 }]);
+    assertEquals(stream.bufferedMessages, 0);
+
+    // Pending writes are done without the client reading anything
+    await Promise.all(writes);
+  });
+
+  await ctx.step("Disconnect clients exceeding the limits with a retry hint", async () => {
+    const { readable, stream } = createStalledStream();
+    stream.limit({ maxMessages: 1, policy: "disconnect", retry: 2_500 });
+
+    const writes = ["a", "b", "c"].map((chunk) => stream.write(chunk));
+    await Promise.all(writes);
+
+    const chunks = await Array.fromAsync(readable.pipeThrough(new TextDecoderStream()));
+
+    assertEquals(chunks, [":Disconnected: Too many messages pending\n\nretry: 2500\n\n"]);
+  });
+
+  await ctx.step("Exempt messages queued before the limits applied", async () => {
+    const client = createClient();
+    const stream = new EventStream(client.stream);
+    const writes = ["a", "b", "c"].map((chunk) => stream.write(chunk));
+
+    stream.limit({ maxMessages: 1, policy: "drop-oldest" });
+    assertEquals(stream.bufferedMessages, 0);
+
+    writes.push(stream.write("d"), stream.write("e"));
+
+    client.resume();
+    await Promise.all(writes);
+
+    assertEquals(client.chunks, ["a", "b", "c", ":Messages dropped: 1\n\n", "e"]);
+  });
+
+  await ctx.step(
+    "Abort the stream if the client doesn't read before the close timeout",
+    async () => {
+      const { readable, stream } = createStalledStream();
+      const write = stream.write("a");
+
+      await stream.close(10);
+
+      await assertRejects(() => readable.getReader().closed, Error, "Timed out");
+      await write;
+    },
+  );
+});
+
+Deno.test("Slow subscribers", async (ctx) => {
+  await ctx.step("Close subscribers disconnected by their stream", async () => {
+    const client = createClient();
+    const stream = new EventStream(client.stream);
+    const subscriber = new Subscriber(stream);
+    const evictions: Overflow[] = [];
+    const closed = Promise.withResolvers<void>();
+
+    subscriber.addEventListener("evict", ({ detail }) => evictions.push(detail));
+    subscriber.addEventListener("close", () => closed.resolve());
+    stream.limit({ maxMessages: 1, policy: "disconnect" });
+
+    const dispatches = ["1", "2", "3"].map((id) => subscriber.dispatch(createUpdate(id)));
+    await closed.promise;
+
+    assertEquals(evictions, [{ policy: "disconnect", dropped: 2 }]);
+    assert(!subscriber.active);
+
+    client.resume();
+    await Promise.all(dispatches);
+  });
+
+  await ctx.step("Keep subscribers dropping messages connected", async () => {
+    const client = createClient();
+    const stream = new EventStream(client.stream);
+    const subscriber = new Subscriber(stream);
+    const evictions: Overflow[] = [];
+
+    subscriber.addEventListener("evict", ({ detail }) => evictions.push(detail));
+    stream.limit({ maxMessages: 1, policy: "drop-oldest" });
+
+    const dispatches = ["1", "2", "3"].map((id) => subscriber.dispatch(createUpdate(id)));
+
+    assertEquals(evictions, [{ policy: "drop-oldest", dropped: 1 }]);
+    assert(subscriber.active);
+
+    client.resume();
+    await Promise.all(dispatches);
+    await subscriber.close();
+  });
+});
+
+Deno.test("Subscriber expiration", async (ctx) => {
+  await ctx.step("Close the connection at the expiration time", async () => {
+    const client = createClient();
+    const subscriber = new Subscriber(new EventStream(client.stream));
+    const closed = Promise.withResolvers<void>();
+
+    subscriber.addEventListener("close", () => closed.resolve());
+    subscriber.expireAt(new Date(Date.now() + 10));
+    client.resume();
+    await closed.promise;
+    await client.closed;
+
+    assert(!subscriber.active);
+    assertEquals(client.chunks, [
+      ":Token expired: Refresh the authorization token before reconnecting\n\n",
+    ]);
+  });
+
+  await ctx.step("Close the connection of clients that stopped reading", async () => {
+    const { readable, stream } = createStalledStream();
+    const subscriber = new Subscriber(stream);
+    const closed = Promise.withResolvers<void>();
+    const dispatch = subscriber.dispatch(createUpdate("1"));
+
+    subscriber.addEventListener("close", () => closed.resolve());
+    subscriber.expireAt(new Date(Date.now() + 10));
+    await closed.promise;
+
+    assert(!subscriber.active);
+    await assertRejects(() => readable.getReader().closed, Error, "Timed out");
+    await dispatch;
+  });
+
+  await ctx.step("Cancel the expiration when closing early", async () => {
+    const client = createClient();
+    const subscriber = new Subscriber(new EventStream(client.stream));
+
+    subscriber.expireAt(new Date(Date.now() + 60_000));
+    client.resume();
+    await subscriber.close();
+
+    assertEquals(client.chunks, []);
+  });
+});
+
+/**
+ * Create a client that doesn't read anything, until it is resumed.
+ */
+function createClient() {
+  const decoder = new TextDecoder();
+  const chunks: string[] = [];
+  const resumed = Promise.withResolvers<void>();
+  const closed = Promise.withResolvers<void>();
+  const stream = new WritableStream<Uint8Array>({
+    async write(chunk) {
+      await resumed.promise;
+      chunks.push(decoder.decode(chunk));
+    },
+    close: () => closed.resolve(),
+  });
+
+  return {
+    stream,
+    chunks,
+    closed: closed.promise,
+    resume: () => resumed.resolve(),
+  };
+}
+
+/**
+ * Create an event stream whose response body isn't read, torn down the way
+ * subscription responses are.
+ */
+function createStalledStream() {
+  let controller: TransformStreamDefaultController<Uint8Array>;
+  const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>({
+    start: (transformController) => void (controller = transformController),
+  });
+  const stream = new EventStream(writable, (reason, hint) => {
+    if (!hint) {
+      return controller.error(reason);
+    }
+
+    controller.enqueue(hint);
+    controller.terminate();
+  });
+
+  return { readable, stream };
+}
+
+function collectOverflows(stream: EventStream) {
+  const overflows: Overflow[] = [];
+  stream.addEventListener("overflow", (event) => {
+    overflows.push((event as CustomEvent<Overflow>).detail);
+  });
+
+  return overflows;
+}
@@ -0,0 +1,192 @@
+import type { Subscriber } from "./subscribers.ts";
+import type { Subscription } from "./subscriptions.ts";
+
+/**
+ * An index of subscriptions by topic selector, to find the subscribers of an
+ * update without testing every single subscription.
+ *
+ * Subscriptions are sorted into buckets by the type of their selector:
+ *
+ *  - Literal selectors are kept in a map by topic, so they are found by exact
+ *    lookup.
+ *  - Wildcard selectors match every update, so they are kept in a list.
+ *  - Template selectors are kept in a map by host name and the literal part of
+ *    their path, up to the last slash before the first variable. For a topic,
+ *    only the buckets of its host and the prefixes of its path are tested.
+ *    Templates with a variable host name cannot be indexed, and are tested for
+ *    every update, just like all templates for topics that aren't absolute
+ *    URLs, as those are resolved relative to the base URL of each selector.
+ *
+ * Only template selectors are ever tested against the topics of an update;
+ * lookups for literal and wildcard selectors take constant time.
+ */
+export class SubscriptionRegistry {
+  readonly #literals = new Map<string, Set<Subscription>>();
+  readonly #wildcards = new Set<Subscription>();
+  readonly #templates = new Map<string, Set<Subscription>>();
+  readonly #unindexed = new Set<Subscription>();
+  #size = 0;
+
+  /**
+   * The number of subscriptions in the registry.
+   */
+  get size() {
+    return this.#size;
+  }
+
+  add(subscription: Subscription) {
+    const bucket = this.#bucket(subscription, true)!;
+
+    if (!bucket.has(subscription)) {
+      bucket.add(subscription);
+      this.#size++;
+    }
+  }
+
+  delete(subscription: Subscription) {
+    const bucket = this.#bucket(subscription, false);
+
+    if (!bucket?.delete(subscription)) {
+      return;
+    }
+
+    this.#size--;
+
+    // Remove empty buckets, so the maps don't grow with every topic ever seen
+    if (bucket.size === 0) {
+      const { selector } = subscription;
+
+      if (selector.type === "literal") {
+        this.#literals.delete(selector.selector as string);
+      } else if (selector.type === "template") {
+        const key = templateKey(selector.selector as URLPattern);
+
+        if (key !== undefined) {
+          this.#templates.delete(key);
+        }
+      }
+    }
+  }
+
+  /**
+   * Find all subscribers with at least one subscription matching any of the
+   * given topics. Every subscriber is included once, no matter how many of
+   * their subscriptions match.
+   *
+   * @param topics Canonical and alternate topics of an update
+   */
+  match(topics: readonly [string, ...string[]]) {
+    const subscribers = new Set<Subscriber>();
+    const collect = (subscriptions: Iterable<Subscription> | undefined, test: boolean) => {
+      for (const subscription of subscriptions ?? []) {
+        if (subscribers.has(subscription.subscriber)) {
+          continue;
+        }
+
+        if (!test || subscription.match(topics)) {
+          subscribers.add(subscription.subscriber);
+        }
+      }
+    };
+
+    collect(this.#wildcards, false);
+    collect(this.#unindexed, true);
+
+    for (const topic of topics) {
+      collect(this.#literals.get(topic), false);
+
+      const url = URL.canParse(topic) ? new URL(topic) : undefined;
+
+      if (!url) {
+        for (const subscriptions of this.#templates.values()) {
+          collect(subscriptions, true);
+        }
+
+        continue;
+      }
+
+      for (const key of topicKeys(url)) {
+        collect(this.#templates.get(key), true);
+      }
+    }
+
+    return subscribers;
+  }
+
+  #bucket(subscription: Subscription, create: boolean) {
+    const { selector } = subscription;
+
+    if (selector.type === "wildcard") {
+      return this.#wildcards;
+    }
+
+    if (selector.type === "literal") {
+      return lookup(this.#literals, selector.selector as string, create);
+    }
+
+    const key = templateKey(selector.selector as URLPattern);
+
+    return key === undefined ? this.#unindexed : lookup(this.#templates, key, create);
+  }
+}
+
+function lookup<K, V>(map: Map<K, Set<V>>, key: K, create: boolean) {
+  let bucket = map.get(key);
+
+  if (!bucket && create) {
+    bucket = new Set();
+    map.set(key, bucket);
+  }
+
+  return bucket;
+}
+
+/**
+ * Build the index key of a template selector from its host name and the
+ * literal prefix of its path.
+ *
+ * @param pattern URL pattern of the selector
+ * @returns The key, or `undefined` if the host name is not a literal
+ */
+function templateKey(pattern: URLPattern) {
+  if (!/^[a-z\d.-]+$/.test(pattern.hostname)) {
+    return undefined;
+  }
+
+  const path = pattern.pathname;
+  const variable = path.search(/[:*(){}\\?+]/);
+
+  // Modifiers apply to the preceding character, so we can only rely on the
+  // path up to the last slash before anything that isn't a literal.
+  const prefix = variable === -1 ? path : path.slice(0, path.lastIndexOf("/", variable - 1) + 1);
+
+  return pattern.hostname + prefix;
+}
+
+/**
+ * Generate all index keys a template selector matching the given URL may have:
+ * Its host name, followed by all prefixes of its path ending with a slash, the
+ * full path with or without a trailing slash, or nothing at all.
+ *
+ * @param url URL of the topic
+ */
+function* topicKeys({ hostname, pathname }: URL) {
+  for (
+    let index = pathname.indexOf("/");
+    index !== -1;
+    index = pathname.indexOf("/", index + 1)
+  ) {
+    yield hostname + pathname.slice(0, index + 1);
+  }
+
+  // The slash in front of an optional variable, such as `/books/:id?`, is
+  // optional, too, so the path may be matched by a prefix one segment longer.
+  if (!pathname.endsWith("/")) {
+    yield hostname + pathname;
+    yield `${hostname}${pathname}/`;
+  }
+
+  // Patterns with a path starting with a variable, such as `*`, are indexed
+  // by their host name only.
+  yield hostname;
+}
@@ -0,0 +1,123 @@
+import { assertEquals } from "@std/assert";
+import { EventStream, Subscriber } from "./subscribers.ts";
+import { SubscriptionRegistry } from "./subscription_registry.ts";
+import { Subscription } from "./subscriptions.ts";
+import { createTopicSelector, TopicSelector } from "./topic.ts";
+
+const baseURL = new URL("https://example.com/.well-known/mercure");
+
+Deno.test("Subscription registry", async (ctx) => {
+  await ctx.step("Match literal selectors exactly", () => {
+    const registry = new SubscriptionRegistry();
+    const book = subscribe(registry, "https://example.com/books/1");
+    subscribe(registry, "https://example.com/books/2");
+
+    assertEquals(match(registry, "https://example.com/books/1"), ids(book));
+    assertEquals(match(registry, "https://example.com/books/10"), ids());
+  });
+
+  await ctx.step("Match wildcard selectors for every topic", () => {
+    const registry = new SubscriptionRegistry();
+    const wildcard = subscribe(registry, "*");
+
+    assertEquals(match(registry, "https://example.com/books/1"), ids(wildcard));
+    assertEquals(match(registry, "urn:isbn:0451450523"), ids(wildcard));
+  });
+
+  await ctx.step("Match template selectors by host and path", () => {
+    const registry = new SubscriptionRegistry();
+    const books = subscribe(registry, template("https://example.com/books/:id"));
+    const reviews = subscribe(registry, template("https://example.com/books/:id/reviews"));
+    const all = subscribe(registry, template("https://example.com/*"));
+    subscribe(registry, template("https://example.org/books/:id"));
+    subscribe(registry, template("https://example.com/authors/:id"));
+
+    assertEquals(match(registry, "https://example.com/books/1"), ids(books, all));
+    assertEquals(match(registry, "https://example.com/books/1/reviews"), ids(reviews, all));
+    assertEquals(match(registry, "https://example.com/"), ids(all));
+  });
+
+  await ctx.step("Match template selectors with optional path segments", () => {
+    const registry = new SubscriptionRegistry();
+    const books = subscribe(registry, template("https://example.com/books/:id?"));
+
+    assertEquals(match(registry, "https://example.com/books"), ids(books));
+    assertEquals(match(registry, "https://example.com/books/1"), ids(books));
+  });
+
+  await ctx.step("Match template selectors with a variable host", () => {
+    const registry = new SubscriptionRegistry();
+    const tenant = subscribe(registry, template("https://:tenant.example.com/books/:id"));
+
+    assertEquals(match(registry, "https://acme.example.com/books/1"), ids(tenant));
+    assertEquals(match(registry, "https://acme.example.com/authors/1"), ids());
+  });
+
+  await ctx.step("Match template selectors against relative topics", () => {
+    const registry = new SubscriptionRegistry();
+    const books = subscribe(registry, template("https://example.com/books/:id"));
+
+    assertEquals(match(registry, "/books/1"), ids(books));
+    assertEquals(match(registry, "/authors/1"), ids());
+  });
+
+  await ctx.step("Match alternate topics", () => {
+    const registry = new SubscriptionRegistry();
+    const book = subscribe(registry, "https://example.com/books/1");
+
+    assertEquals(
+      match(registry, "https://example.com/books/2", "https://example.com/books/1"),
+      ids(book),
+    );
+  });
+
+  await ctx.step("Include subscribers once, even if multiple subscriptions match", () => {
+    const registry = new SubscriptionRegistry();
+    const subscriber = subscribe(registry, "https://example.com/books/1");
+    registry.add(new Subscription(subscriber, createTopicSelector("*")));
+
+    assertEquals(match(registry, "https://example.com/books/1"), ids(subscriber));
+  });
+
+  await ctx.step("Stop matching deleted subscriptions", () => {
+    const registry = new SubscriptionRegistry();
+    const subscriber = subscribe(registry, "https://example.com/books/1");
+    const [subscription] = subscriber.subscriptions;
+
+    registry.delete(subscription);
+    registry.delete(subscription);
+
+    assertEquals(match(registry, "https://example.com/books/1"), ids());
+    assertEquals(registry.size, 0);
+  });
+});
+
+/**
+ * Create a subscriber with a single subscription, and add it to the registry.
+ */
+function subscribe(registry: SubscriptionRegistry, selector: string | TopicSelector) {
+  const subscriber = new Subscriber(new EventStream(new WritableStream()));
+  const subscription = new Subscription(
+    subscriber,
+    typeof selector === "string" ? createTopicSelector(selector, baseURL) : selector,
+  );
+  registry.add(subscription);
+
+  return subscriber;
+}
+
+function template(pattern: string) {
+  return new TopicSelector(new URLPattern(pattern), baseURL);
+}
+
+/**
+ * Match the topics, and return the IDs of the matching subscribers. The order
+ * of subscribers is not significant, so the IDs are sorted.
+ */
+function match(registry: SubscriptionRegistry, ...topics: [string, ...string[]]) {
+  return ids(...registry.match(topics));
+}
+
+function ids(...subscribers: Subscriber[]) {
+  return subscribers.map(({ id }) => id).sort();
+}
@@ -1,4 +1,8 @@
+import type { Configuration, ConfigurationInput } from "./config/mod.ts";
+import { parse } from "./config/_schema.ts";
+import { issueJwt } from "./jws.ts";
 import type { MaybePromise } from "./server/utils.ts";
+import type { Update } from "./updates.ts";
 
 export function mockFs(
   mockFiles: Record<string, string> | ((path: string) => Promise<string>),
@@ -88,3 +92,208 @@ async function withGlobalMock<T, O, M>(
     await restore(original);
   }
 }
+
+/**
+ * Create a valid configuration for use in tests.
+ *
+ * A fresh HMAC key is generated for every configuration, so tokens issued for
+ * one configuration will not be accepted by another.
+ *
+ * @param overrides Configuration options to override
+ */
+export async function createTestConfiguration(
+  overrides: Partial<ConfigurationInput> = {},
+) {
+  const key = await crypto.subtle.generateKey(
+    { name: "HMAC", hash: "SHA-256" },
+    true,
+    ["sign", "verify"],
+  );
+  const jwk = await crypto.subtle.exportKey("jwk", key);
+
+  return parse({
+    jwk: JSON.stringify({ ...jwk, alg: "HS256" }),
+    ...overrides,
+  } as ConfigurationInput);
+}
+
+/**
+ * Issue a token signed with the key of the given configuration.
+ *
+ * @param config Configuration to issue the token for
+ * @param claims Topics the token holder may publish or subscribe to, and
+ *               optionally the time after which the token expires
+ */
+export function issueTestToken(
+  config: Configuration,
+  claims: { publish?: string[]; subscribe?: string[]; expire?: string },
+) {
+  return issueJwt(config.publishJwk![0], "HS256", {
+    audience: "mercure",
+    subject: "test",
+    issuer: "test",
+    ...claims,
+  });
+}
+
+/**
+ * Wait for the given amount of time.
+ *
+ * @param milliseconds Time to wait
+ */
+export function delay(milliseconds: number) {
+  return new Promise((resolve) => setTimeout(resolve, milliseconds));
+}
+
+/**
+ * Create an update with the given ID, which doubles as its data.
+ *
+ * @param id ID of the update
+ * @param topic Canonical topic of the update
+ */
+export function createUpdate(id: string, topic = "https://example.com/foo"): Update {
+  return { id, canonicalTopic: topic, alternateTopics: [], data: id };
+}
+
+/**
+ * Wait until a condition is met, for example because an asynchronous write
+ * has completed in the background.
+ *
+ * @param predicate Condition to wait for
+ * @param timeout Maximum time to wait, in milliseconds
+ * @throws {Error} If the condition is not met in time
+ */
+export async function waitFor(predicate: () => MaybePromise<boolean>, timeout = 1_000) {
+  const deadline = Date.now() + timeout;
+
+  while (!(await predicate())) {
+    if (Date.now() > deadline) {
+      throw new Error("Timed out waiting for condition");
+    }
+
+    await delay(5);
+  }
+}
+
+/**
+ * Reads server-sent events from a response body.
+ *
+ * This is a minimal event stream parser for assertions in tests; it keeps
+ * pending reads around between calls, so events are never lost when a read
+ * times out.
+ */
+export class EventStreamReader {
+  readonly #reader: ReadableStreamDefaultReader<string>;
+  #buffer = "";
+  #pending: Promise<ReadableStreamReadResult<string>> | undefined;
+
+  public constructor(response: Response) {
+    this.#reader = response.body!
+      .pipeThrough(new TextDecoderStream())
+      .getReader();
+  }
+
+  /**
+   * Read up to the given number of events.
+   *
+   * Resolves early if the stream ends, or if no further events arrive within
+   * the timeout.
+   *
+   * @param count Maximum number of events to read
+   * @param timeout Time to wait for further events, in milliseconds
+   */
+  public async read(count = Infinity, timeout = 100) {
+    const events: ServerSentEvent[] = [];
+
+    while (events.length < count) {
+      const event = this.#parse();
+
+      if (event) {
+        events.push(event);
+
+        continue;
+      }
+
+      let timer: number | undefined;
+      this.#pending ??= this.#reader.read();
+
+      const result = await Promise.race([
+        this.#pending,
+        new Promise<undefined>((resolve) => {
+          timer = setTimeout(() => resolve(undefined), timeout);
+        }),
+      ]);
+      clearTimeout(timer);
+
+      if (!result) {
+        break;
+      }
+
+      this.#pending = undefined;
+
+      if (result.done) {
+        break;
+      }
+
+      this.#buffer += result.value;
+    }
+
+    return events;
+  }
+
+  public async cancel() {
+    await this.#reader.cancel();
+  }
+
+  #parse(): ServerSentEvent | undefined {
+    const end = this.#buffer.indexOf("\n\n");
+
+    if (end === -1) {
+      return;
+    }
+
+    const block = this.#buffer.slice(0, end);
+    this.#buffer = this.#buffer.slice(end + 2);
+
+    const event: ServerSentEvent = { data: [], comments: [] };
+
+    for (const line of block.split("\n")) {
+      if (line.startsWith(":")) {
+        event.comments.push(line.slice(1));
+
+        continue;
+      }
+
+      const [field, ...rest] = line.split(": ");
+      const value = rest.join(": ");
+
+      switch (field) {
+        case "data":
+          event.data.push(value);
+          break;
+
+        case "id":
+          event.id = value;
+          break;
+
+        case "event":
+          event.event = value;
+          break;
+
+        case "retry":
+          event.retry = Number(value);
+          break;
+      }
+    }
+
+    return event;
+  }
+}
+
+type ServerSentEvent = {
+  id?: string;
+  event?: string;
+  retry?: number;
+  data: string[];
+  comments: string[];
+};
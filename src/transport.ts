@@ -1,21 +1,30 @@
+import * as Log from "@std/log";
+import { isAbsolute, resolve, toFileUrl } from "@std/path";
+import { type z, ZodError } from "zod";
 import type { Configuration } from "./config/mod.ts";
-import { MemoryTransport } from "./transports/memory.ts";
-import { createTransport, registerTransport } from "./transports/mod.ts";
-import { RedisTransport } from "./transports/redis.ts";
+import {
+  createTransport,
+  registerTransport,
+  type Transport,
+  transports,
+} from "./transports/mod.ts";
 
 /**
  * Set up the event transport.
  *
  * This function will create a transport instance based on the provided URI.
  * If the URI is invalid or the transport is not supported, an unrecoverable
- * error will be thrown.
+ * error will be thrown. Invalid transport options are reported as validation
+ * errors of the `transportUri` configuration option.
  *
  * @param uri The URI to connect to
  * @param apiEnabled Whether the subscriptions API should be enabled
+ * @param modules Module specifiers of additional transports to load
  */
 export async function setupTransport({
   transportUri: uri = "memory:",
   subscriptionsApi: apiEnabled = false,
+  transports: modules = [],
 }: TransportOptions = {}) {
   if (!uri) {
     throw new Error(`Transport connection failed: Missing URI`);
@@ -29,27 +38,182 @@ export async function setupTransport({
     throw new Error("Transport connection failed: Invalid URI", { cause });
   }
 
-  // Register all transports. This could be solved more elegantly, if we had
-  // a nice way to automatically import all files in a directory.
-  registerTransports();
+  // Additional transports are loaded first, so they may replace built-in
+  // transports using the same protocol.
+  await loadTransports(modules);
+  await loadBuiltInTransport(transportUri);
 
   try {
     return await createTransport(transportUri, apiEnabled);
   } catch (cause) {
+    if (cause instanceof ZodError) {
+      throw cause;
+    }
+
     throw new Error(`Transport connection failed: ${cause.message}`, { cause });
   }
 }
 
 /**
- * Register all transports.
+ * Register all built-in transports.
+ *
+ * Third-party transports are not part of this list; they are loaded from the
+ * modules listed in the `transports` configuration option instead.
  *
- * This should be done automatically, but we don't have a nice way to import
- * all files in a directory yet.
+ * @see loadTransports
  */
-function registerTransports() {
-  // TODO: Automatically import all files in the transports directory
-  registerTransport(new MemoryTransport());
-  registerTransport(new RedisTransport());
+export async function registerTransports() {
+  for (const protocol of Object.keys(builtInTransports)) {
+    await loadBuiltInTransport(new URL(protocol));
+  }
+}
+
+/**
+ * Load and register the built-in transport for the protocol of a URI, unless
+ * a transport has been registered for it already.
+ *
+ * Built-in transports are imported once they are used only, so the hub does
+ * not load the dependencies of every other transport.
+ *
+ * @param uri URI of the transport
+ */
+export async function loadBuiltInTransport(uri: URL) {
+  const load = builtInTransports[uri.protocol];
+
+  if (!load || transports.has(uri.protocol as `${string}:`)) {
+    return;
+  }
+
+  registerTransport(new (await load(uri))());
+}
+
+const builtInTransports: Record<string, (uri: URL) => Promise<new () => Transport>> = {
+  "memory:": async () => (await import("./transports/memory.ts")).MemoryTransport,
+  "redis:": async () => (await import("./transports/redis.ts")).RedisTransport,
+  "postgresql:": async () => (await import("./transports/postgres.ts")).PostgresTransport,
+  "kafka:": async () => (await import("./transports/kafka.ts")).KafkaTransport,
+  "eventstoredb:": async () => (await import("./transports/eventstoredb.ts")).EventStoreDBTransport,
+  "kv:": async () => (await import("./transports/kv.ts")).KvTransport,
+  "file:": async () => (await import("./transports/file.ts")).FileTransport,
+  "nats:": async () => (await import("./transports/nats.ts")).NatsTransport,
+  "amqp:": async () => (await import("./transports/amqp.ts")).AmqpTransport,
+  async "mirror:"(uri) {
+    // The mirrored transports are validated along with the options, so they
+    // must be registered before connecting.
+    for (const name of ["primary", "secondary"]) {
+      const mirrored = uri.searchParams.get(name);
+
+      if (mirrored && URL.canParse(mirrored)) {
+        await loadBuiltInTransport(new URL(mirrored));
+      }
+    }
+
+    return (await import("./transports/mirror.ts")).MirrorTransport;
+  },
+};
+
+/**
+ * Load and register third-party transports.
+ *
+ * Each module must have a default export implementing the {@link Transport}
+ * interface: Either a class, which is instantiated without arguments, or a
+ * transport instance. Classes are preferred, as composite transports like the
+ * mirror transport create their own instances. Local paths are resolved
+ * relative to the working directory; all other specifiers, such as `jsr:` or
+ * `npm:` specifiers, are imported as-is, and thus resolved from the vendor
+ * directory if present.
+ *
+ * @param specifiers Module specifiers of the transports to load
+ * @throws {Error} If a module cannot be imported, or does not export a
+ *                 transport
+ */
+export async function loadTransports(specifiers: string[]) {
+  for (const specifier of specifiers) {
+    let module: { default?: unknown };
+
+    try {
+      module = await import(resolveSpecifier(specifier));
+    } catch (cause) {
+      throw new Error(`Loading transport "${specifier}" failed: ${cause.message}`, { cause });
+    }
+
+    const transport = instantiateTransport(module.default, specifier);
+    registerTransport(transport);
+
+    Log.info(`Loaded transport "${transport.protocol}" from "${specifier}"`);
+  }
 }
 
-type TransportOptions = Partial<Pick<Configuration, "transportUri" | "subscriptionsApi">>;
+function resolveSpecifier(specifier: string) {
+  if (isAbsolute(specifier) || specifier.startsWith("./") || specifier.startsWith("../")) {
+    return toFileUrl(resolve(specifier)).href;
+  }
+
+  return specifier;
+}
+
+/**
+ * Create a transport from the default export of a transport module, and verify
+ * it actually implements the transport interface, so invalid modules are
+ * reported at startup instead of failing once the hub is in use.
+ *
+ * @param value Default export of the module
+ * @param specifier Module specifier, used in error messages
+ * @throws {Error} If the value does not implement the transport interface
+ */
+function instantiateTransport(value: unknown, specifier: string): Transport {
+  const fail = (reason: string) => {
+    throw new Error(`Loading transport "${specifier}" failed: ${reason}`);
+  };
+
+  if (value === undefined) {
+    fail("The module has no default export");
+  }
+
+  let transport: Record<string, unknown> = value as Record<string, unknown>;
+
+  if (typeof value === "function") {
+    try {
+      transport = new (value as new () => Record<string, unknown>)();
+    } catch (cause) {
+      throw new Error(
+        `Loading transport "${specifier}" failed: Could not be instantiated: ${cause.message}`,
+        { cause },
+      );
+    }
+  }
+
+  if (typeof transport !== "object" || transport === null) {
+    fail("The default export is neither a transport class nor a transport instance");
+  }
+
+  if (typeof transport.protocol !== "string" || !/^[a-z][a-z\d+.-]*:$/.test(transport.protocol)) {
+    fail('The "protocol" property must be a URL scheme followed by a colon, such as "custom:"');
+  }
+
+  // Modules may use their own copy of Zod, so we can't check for instances
+  if (typeof (transport.options as z.ZodType | undefined)?.safeParse !== "function") {
+    fail('The "options" property must be a Zod schema');
+  }
+
+  for (const method of requiredMethods) {
+    if (typeof transport[method] !== "function") {
+      fail(`The "${method}" method is missing`);
+    }
+  }
+
+  return transport as unknown as Transport;
+}
+
+const requiredMethods = [
+  "connect",
+  "close",
+  "eventsAfter",
+  "dispatchEvent",
+  "addEventListener",
+  "removeEventListener",
+] as const;
+
+type TransportOptions = Partial<
+  Pick<Configuration, "transportUri" | "subscriptionsApi" | "transports">
+>;
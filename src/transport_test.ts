@@ -0,0 +1,165 @@
+import { assertEquals, assertInstanceOf, assertRejects } from "@std/assert";
+import { join } from "@std/path";
+import { loadTransports, setupTransport } from "./transport.ts";
+import { MemoryTransport } from "./transports/memory.ts";
+import { MirrorTransport } from "./transports/mirror.ts";
+import { transports } from "./transports/mod.ts";
+
+const memoryModule = new URL("./transports/memory.ts", import.meta.url).href;
+
+Deno.test("Built-in transports", async (ctx) => {
+  await ctx.step("Load the transport for the protocol of the URI", async () => {
+    const transport = await setupTransport({ transportUri: "memory:" });
+    await transport.close();
+
+    assertInstanceOf(transport, MemoryTransport);
+  });
+
+  await ctx.step("Load the transports mirrored by the mirror transport", async () => {
+    const transport = await setupTransport({
+      transportUri: "mirror:?primary=memory%3A&secondary=kv%3A%3Amemory%3A",
+    });
+    await transport.close();
+
+    assertInstanceOf(transport, MirrorTransport);
+    assertEquals(transports.has("kv:"), true);
+  });
+
+  await ctx.step("Prefer additional transports using the same protocol", async () => {
+    await using plugin = await createPlugin(`
+      import { MemoryTransport } from "${memoryModule}";
+
+      export default class CustomTransport extends MemoryTransport {
+        protocol = "kafka:";
+      }
+    `);
+
+    const transport = await setupTransport({
+      transportUri: "kafka:",
+      transports: [plugin.path],
+    });
+    await transport.close();
+
+    assertInstanceOf(transport, MemoryTransport);
+    transports.delete("kafka:");
+  });
+});
+
+Deno.test("Transport plugins", async (ctx) => {
+  await ctx.step("Register transport classes exported by a module", async () => {
+    await using plugin = await createPlugin(`
+      import { MemoryTransport } from "${memoryModule}";
+
+      export default class CustomTransport extends MemoryTransport {
+        protocol = "custom:";
+      }
+    `);
+
+    await loadTransports([plugin.path]);
+
+    assertInstanceOf(transports.get("custom:"), MemoryTransport);
+    transports.delete("custom:");
+  });
+
+  await ctx.step("Register transport instances exported by a module", async () => {
+    await using plugin = await createPlugin(`
+      import { MemoryTransport } from "${memoryModule}";
+
+      const transport = new MemoryTransport();
+      transport.protocol = "instance:";
+
+      export default transport;
+    `);
+
+    await loadTransports([plugin.path]);
+
+    assertInstanceOf(transports.get("instance:"), MemoryTransport);
+    transports.delete("instance:");
+  });
+
+  await ctx.step("Connect to loaded transports", async () => {
+    await using plugin = await createPlugin(`
+      import { MemoryTransport } from "${memoryModule}";
+
+      export default class CustomTransport extends MemoryTransport {
+        protocol = "custom:";
+      }
+    `);
+
+    const transport = await setupTransport({
+      transportUri: "custom:",
+      transports: [plugin.path],
+    });
+    await transport.close();
+
+    assertEquals(transport.protocol, "custom:");
+    transports.delete("custom:");
+  });
+
+  await ctx.step("Reject modules that cannot be imported", async () => {
+    await assertRejects(
+      () => loadTransports(["./does_not_exist.ts"]),
+      Error,
+      'Loading transport "./does_not_exist.ts" failed',
+    );
+  });
+
+  await ctx.step("Reject modules without a default export", async () => {
+    await using plugin = await createPlugin(`export const transport = {};`);
+
+    await assertRejects(
+      () => loadTransports([plugin.path]),
+      Error,
+      "no default export",
+    );
+  });
+
+  await ctx.step("Reject modules not exporting a transport", async () => {
+    await using plugin = await createPlugin(`
+      export default class NotATransport {
+        protocol = "broken:";
+        options = { safeParse: () => ({ success: true, data: {} }) };
+      }
+    `);
+
+    await assertRejects(
+      () => loadTransports([plugin.path]),
+      Error,
+      'The "connect" method is missing',
+    );
+    assertEquals(transports.has("broken:"), false);
+  });
+
+  await ctx.step("Reject transports with an invalid protocol", async () => {
+    await using plugin = await createPlugin(`
+      import { MemoryTransport } from "${memoryModule}";
+
+      export default class CustomTransport extends MemoryTransport {
+        protocol = "custom";
+      }
+    `);
+
+    await assertRejects(
+      () => loadTransports([plugin.path]),
+      Error,
+      '"protocol" property',
+    );
+  });
+});
+
+/**
+ * Write a transport module to a temporary directory, to be loaded as a plugin.
+ */
+async function createPlugin(source: string) {
+  const directory = await Deno.makeTempDir({ prefix: "mercure_test_" });
+  const path = join(directory, "transport.js");
+  await Deno.writeTextFile(path, source);
+
+  return {
+    path,
+
+    async [Symbol.asyncDispose]() {
+      await Deno.remove(directory, { recursive: true });
+    },
+  };
+}
@@ -0,0 +1,628 @@
+import { assertEquals, assertRejects, assertThrows } from "@std/assert";
+import { earliestEventId } from "../hub.ts";
+import { createUpdate, delay, waitFor } from "../test_utilities.ts";
+import type { Update } from "../updates.ts";
+import { UnknownEventIdError } from "./_errors.ts";
+import { ZodError } from "zod";
+import { connectTransport, type EventMap, parseTransportOptions, type Transport } from "./mod.ts";
+
+/**
+ * Run the transport conformance suite against a transport implementation.
+ *
+ * The suite checks the behavior every hub relies on, regardless of the
+ * transport in use: Events of all types reach local listeners and, if the
+ * backend is shared, other nodes; history is replayed in order, starting
+ * after known event IDs only; retention and index limits are honored;
+ * transports may be closed and connected again without losing history; and
+ * options are parsed with their defaults.
+ *
+ * Transports that write to their backend in the background only have to
+ * deliver and store events eventually; the suite waits for them to do so.
+ *
+ * Clusters are disposed of once each test is done, so test backends don't
+ * pile up.
+ *
+ * @param name Name of the transport, used in the test names
+ * @param options Options describing how to run the transport
+ */
+export function testTransportConformance(name: string, options: ConformanceOptions) {
+  const {
+    shared,
+    retention,
+    indexing = false,
+    parsing,
+    timeout = 1_000,
+    sanitize = true,
+    ignore = false,
+  } = options;
+  const clusters: ConformanceCluster[] = [];
+
+  test("events", async (ctx) => {
+    // Publishing with acknowledgement and storing updates only are optional,
+    // so only check them if supported
+    const transport = createCluster().create();
+    const acknowledging = typeof transport.publish === "function";
+    const storing = typeof transport.store === "function";
+
+    for (const type of eventTypes) {
+      await ctx.step(`Deliver ${type} events to local listeners exactly once`, async () => {
+        const cluster = createCluster();
+        const transport = await connect(cluster);
+        const received: unknown[] = [];
+        transport.addEventListener(type, (event) => received.push(payload(event)));
+
+        transport.dispatchEvent(createEvent(type, "first"));
+        await delay(50);
+        await transport.close();
+
+        assertEquals(received, [payload(createEvent(type, "first"))]);
+      });
+    }
+
+    for (const type of eventTypes) {
+      await ctx.step({
+        name: `Deliver ${type} events to other nodes exactly once`,
+        ignore: !shared,
+        async fn() {
+          const cluster = createCluster();
+          const publisher = await connect(cluster);
+          const subscriber = await connect(cluster);
+          const received: unknown[] = [];
+          subscriber.addEventListener(type, (event) => received.push(payload(event)));
+
+          publisher.dispatchEvent(createEvent(type, "first"));
+          await waitFor(() => received.length === 1, timeout);
+          await delay(50);
+          await publisher.close();
+          await subscriber.close();
+
+          assertEquals(received, [payload(createEvent(type, "first"))]);
+        },
+      });
+    }
+
+    await ctx.step("Stop delivering events to removed listeners", async () => {
+      const cluster = createCluster();
+      const transport = await connect(cluster);
+      const received: Update[] = [];
+      const listener = ({ data }: MessageEvent<Update>) => received.push(data);
+      transport.addEventListener("update", listener);
+
+      transport.dispatchEvent(createEvent("update", "first"));
+      transport.removeEventListener("update", listener);
+      transport.dispatchEvent(createEvent("update", "second"));
+      await transport.close();
+
+      assertEquals(received.map(({ id }) => id), ["first"]);
+    });
+
+    await ctx.step("Deliver updates in the order they were dispatched", async () => {
+      const cluster = createCluster();
+      const transport = await connect(cluster);
+      const received: Update[] = [];
+      transport.addEventListener("update", ({ data }) => received.push(data));
+
+      await dispatch(transport, ...ids(20));
+      await transport.close();
+
+      assertEquals(received.map(({ id }) => id), ids(20));
+    });
+
+    await ctx.step({
+      name: "Acknowledge published updates once stored",
+      ignore: !acknowledging,
+      async fn() {
+        const cluster = createCluster();
+        const transport = await connect(cluster);
+        const received: Update[] = [];
+        transport.addEventListener("update", ({ data }) => received.push(data));
+
+        await transport.publish!(createUpdate("first"));
+        const replayed = await replay(transport, earliestEventId);
+        await transport.close();
+
+        assertEquals(replayed, ["first"]);
+        assertEquals(received.map(({ id }) => id), ["first"]);
+      },
+    });
+
+    await ctx.step({
+      name: "Store updates without delivering them",
+      ignore: !storing,
+      async fn() {
+        const cluster = createCluster();
+        const transport = await connect(cluster);
+        const nodes = shared ? [transport, await connect(cluster)] : [transport];
+        const received = nodes.map(() => [] as string[]);
+        nodes.forEach((node, index) =>
+          node.addEventListener("update", ({ data }) => received[index].push(data.id))
+        );
+
+        await transport.store!([createUpdate("first"), createUpdate("second")]);
+        await dispatch(transport, "third");
+        await waitFor(() => received.every((ids) => ids.length === 1), timeout);
+        await delay(50);
+        const replayed = await replay(transport, earliestEventId);
+        await Promise.all(nodes.map((node) => node.close()));
+
+        assertEquals(replayed, ["first", "second", "third"]);
+        assertEquals(received, nodes.map(() => ["third"]));
+      },
+    });
+  });
+
+  test("history replay", async (ctx) => {
+    await ctx.step("Replay nothing without any updates", async () => {
+      const transport = await connect(createCluster());
+
+      assertEquals(await replay(transport, earliestEventId), []);
+      await transport.close();
+    });
+
+    await ctx.step("Replay all updates from the earliest event", async () => {
+      const transport = await connect(createCluster());
+      await dispatch(transport, "first", "second", "third");
+
+      assertEquals(await replay(transport, earliestEventId), ["first", "second", "third"]);
+      await transport.close();
+    });
+
+    await ctx.step("Replay updates after a known event", async () => {
+      const transport = await connect(createCluster());
+      await dispatch(transport, "first", "second", "third");
+
+      assertEquals(await replay(transport, "first"), ["second", "third"]);
+      assertEquals(await replay(transport, "second"), ["third"]);
+      await transport.close();
+    });
+
+    await ctx.step("Replay nothing after the latest event", async () => {
+      const transport = await connect(createCluster());
+      await dispatch(transport, "first", "second");
+
+      assertEquals(await replay(transport, "second"), []);
+      await transport.close();
+    });
+
+    await ctx.step("Reject unknown events", async () => {
+      const transport = await connect(createCluster());
+      await dispatch(transport, "first", "second");
+
+      await assertRejects(() => replay(transport, "unknown"), UnknownEventIdError, "unknown");
+      await transport.close();
+    });
+
+    await ctx.step("Replay updates in the order they were dispatched", async () => {
+      const transport = await connect(createCluster());
+      await dispatch(transport, ...ids(50));
+
+      assertEquals(await replay(transport, earliestEventId), ids(50));
+      assertEquals(await replay(transport, "update-24"), ids(50).slice(25));
+      await transport.close();
+    });
+
+    await ctx.step("Replay the full update", async () => {
+      const transport = await connect(createCluster());
+      const update: Update = {
+        id: "first",
+        canonicalTopic: "https://example.com/foo",
+        alternateTopics: ["https://example.com/bar"],
+        data: "line 1\nline 2",
+        type: "example",
+        retry: 5_000,
+        private: true,
+      };
+
+      transport.dispatchEvent(new MessageEvent("update", { data: update }));
+      await settle(transport, "first");
+
+      assertEquals(await Array.fromAsync(transport.eventsAfter(earliestEventId)), [update]);
+      await transport.close();
+    });
+
+    await ctx.step("Do not replay lifecycle events", async () => {
+      const transport = await connect(createCluster());
+
+      for (const type of eventTypes.filter((type) => type !== "update")) {
+        transport.dispatchEvent(createEvent(type, "lifecycle"));
+      }
+
+      await dispatch(transport, "first");
+
+      assertEquals(await replay(transport, earliestEventId), ["first"]);
+      await transport.close();
+    });
+  });
+
+  test("retention", async (ctx) => {
+    await ctx.step({
+      name: "Only replay the latest updates within the limit",
+      ignore: !retention,
+      async fn() {
+        const { query, limit } = retention!;
+        const transport = await connect(createCluster(), query);
+        send(transport, ...ids(limit + 5));
+        const retained = ids(limit + 5).slice(5);
+
+        await settle(transport, `update-${limit + 4}`);
+        await trim(transport, limit);
+
+        assertEquals(await replay(transport, earliestEventId), retained);
+        assertEquals(await replay(transport, retained[0]), retained.slice(1));
+        await transport.close();
+      },
+    });
+
+    await ctx.step({
+      name: "Reject evicted events",
+      ignore: !retention,
+      async fn() {
+        const { query, limit } = retention!;
+        const transport = await connect(createCluster(), query);
+        send(transport, ...ids(limit + 5));
+
+        await settle(transport, `update-${limit + 4}`);
+        await trim(transport, limit);
+
+        await assertRejects(() => replay(transport, "update-0"), UnknownEventIdError);
+        await transport.close();
+      },
+    });
+
+    await ctx.step({
+      name: "Only index the latest updates within the index size",
+      ignore: !indexing,
+      async fn() {
+        const cluster = createCluster();
+        const publisher = await connect(cluster);
+        await dispatch(publisher, "first", "second", "third");
+        await publisher.close();
+
+        const transport = await connect(cluster, "indexSize=2");
+
+        await assertRejects(() => replay(transport, "first"), UnknownEventIdError);
+        assertEquals(await replay(transport, "second"), ["third"]);
+        await transport.close();
+      },
+    });
+  });
+
+  test("reconnecting", async (ctx) => {
+    await ctx.step("Keep the history when connecting again", async () => {
+      const cluster = createCluster();
+      const transport = await connect(cluster);
+      await dispatch(transport, "first", "second");
+      await transport.close();
+
+      await connectTransport(transport, cluster.uri);
+
+      assertEquals(await replay(transport, earliestEventId), ["first", "second"]);
+      assertEquals(await replay(transport, "first"), ["second"]);
+      await transport.close();
+    });
+
+    await ctx.step("Keep local listeners when connecting again", async () => {
+      const cluster = createCluster();
+      const transport = await connect(cluster);
+      const received: Update[] = [];
+      transport.addEventListener("update", ({ data }) => received.push(data));
+      await transport.close();
+
+      await connectTransport(transport, cluster.uri);
+      await dispatch(transport, "first");
+      await transport.close();
+
+      assertEquals(received.map(({ id }) => id), ["first"]);
+    });
+
+    await ctx.step({
+      name: "Share the history with new nodes",
+      ignore: !shared,
+      async fn() {
+        const cluster = createCluster();
+        const publisher = await connect(cluster);
+        await dispatch(publisher, "first", "second");
+
+        // Closing the transport waits for all pending writes
+        await publisher.close();
+
+        const transport = await connect(cluster);
+
+        assertEquals(await replay(transport, earliestEventId), ["first", "second"]);
+        assertEquals(await replay(transport, "first"), ["second"]);
+        await transport.close();
+      },
+    });
+
+    await ctx.step({
+      name: "Do not deliver history to new nodes",
+      ignore: !shared,
+      async fn() {
+        const cluster = createCluster();
+        const publisher = await connect(cluster);
+        await dispatch(publisher, "first");
+        await publisher.close();
+
+        const transport = cluster.create();
+        const received: Update[] = [];
+        transport.addEventListener("update", ({ data }) => received.push(data));
+        await connectTransport(transport, cluster.uri);
+        await delay(500);
+        await transport.close();
+
+        assertEquals(received, []);
+      },
+    });
+
+    await ctx.step({
+      name: "Stop delivering events from other nodes after closing",
+      ignore: !shared,
+      async fn() {
+        const cluster = createCluster();
+        const publisher = await connect(cluster);
+        const subscriber = await connect(cluster);
+        const received: Update[] = [];
+        subscriber.addEventListener("update", ({ data }) => received.push(data));
+        await subscriber.close();
+
+        await dispatch(publisher, "first");
+        await delay(50);
+        await publisher.close();
+
+        assertEquals(received, []);
+      },
+    });
+  });
+
+  test("concurrency", async (ctx) => {
+    await ctx.step("Store concurrent updates from two nodes exactly once", async () => {
+      const cluster = createCluster();
+      const [first, second] = await Promise.all([connect(cluster), connect(cluster)]);
+      const left = ids(25).map((id) => `left-${id}`);
+      const right = ids(25).map((id) => `right-${id}`);
+
+      await Promise.all([dispatch(first, ...left), dispatch(second, ...right)]);
+      await settle(first, ...left, ...right);
+      await settle(second, ...left, ...right);
+
+      for (const transport of [first, second]) {
+        const replayed = await replay(transport, earliestEventId);
+
+        assertEquals(replayed.length, left.length + right.length);
+        assertEquals(replayed.filter((id) => id.startsWith("left-")), left);
+        assertEquals(replayed.filter((id) => id.startsWith("right-")), right);
+      }
+
+      await Promise.all([first.close(), second.close()]);
+    });
+
+    await ctx.step("Deliver concurrent updates to both nodes exactly once", async () => {
+      const cluster = createCluster();
+      const [first, second] = await Promise.all([connect(cluster), connect(cluster)]);
+      const received = { first: [] as string[], second: [] as string[] };
+      first.addEventListener("update", ({ data }) => received.first.push(data.id));
+      second.addEventListener("update", ({ data }) => received.second.push(data.id));
+      const left = ids(25).map((id) => `left-${id}`);
+      const right = ids(25).map((id) => `right-${id}`);
+
+      await Promise.all([dispatch(first, ...left), dispatch(second, ...right)]);
+      await waitFor(
+        () => received.first.length === 50 && received.second.length === 50,
+        timeout,
+      );
+      await delay(50);
+      await Promise.all([first.close(), second.close()]);
+
+      for (const ids of [received.first, received.second]) {
+        assertEquals(ids.length, 50);
+        assertEquals(ids.filter((id) => id.startsWith("left-")), left);
+        assertEquals(ids.filter((id) => id.startsWith("right-")), right);
+      }
+    });
+  }, ignore || !shared);
+
+  // Parsing options does not need a backend, so it is checked regardless
+  test("options", async (ctx) => {
+    const { transport, uri, defaults, invalid } = parsing!;
+    const parse = (query: string) => {
+      const url = new URL(uri);
+
+      for (const [key, value] of new URLSearchParams(query)) {
+        url.searchParams.set(key, value);
+      }
+
+      return parseTransportOptions(transport, url);
+    };
+
+    await ctx.step("Apply defaults", () => {
+      assertEquals(parse(""), defaults);
+    });
+
+    await ctx.step("Reject invalid options", () => {
+      for (const [query, option] of Object.entries(invalid)) {
+        assertThrows(() => parse(query), ZodError, option);
+      }
+    });
+  }, !parsing);
+
+  /**
+   * Register a test of the suite, disposing of the clusters it created once
+   * it is done.
+   */
+  function test(title: string, fn: (ctx: Deno.TestContext) => Promise<void>, skip = ignore) {
+    Deno.test({
+      name: `${name} transport conformance: ${title}`,
+      ignore: skip,
+      sanitizeOps: sanitize,
+      sanitizeResources: sanitize,
+      async fn(ctx) {
+        try {
+          await fn(ctx);
+        } finally {
+          await Promise.all(clusters.splice(0).map((cluster) => cluster.dispose?.()));
+        }
+      },
+    });
+  }
+
+  function createCluster() {
+    const cluster = options.createCluster();
+    clusters.push(cluster);
+
+    return cluster;
+  }
+
+  async function connect(cluster: ConformanceCluster, query = "") {
+    const uri = new URL(cluster.uri);
+
+    for (const [key, value] of new URLSearchParams(query)) {
+      uri.searchParams.set(key, value);
+    }
+
+    return await connectTransport(cluster.create(), uri);
+  }
+
+  /**
+   * Dispatch updates, and wait for them to be stored.
+   */
+  async function dispatch(transport: Transport, ...ids: string[]) {
+    send(transport, ...ids);
+
+    await settle(transport, ...ids);
+  }
+
+  /**
+   * Wait for the history to be trimmed to the given number of updates.
+   */
+  async function trim(transport: Transport, limit: number) {
+    await waitFor(async () => (await replay(transport, earliestEventId)).length <= limit, timeout);
+  }
+
+  /**
+   * Wait for updates to become available for replay.
+   */
+  async function settle(transport: Transport, ...ids: string[]) {
+    await waitFor(async () => {
+      const replayed = new Set(await replay(transport, earliestEventId));
+
+      return ids.every((id) => replayed.has(id));
+    }, timeout);
+  }
+}
+
+/**
+ * Options of the conformance suite for a transport.
+ */
+export type ConformanceOptions = {
+  /**
+   * Create a new, empty backend for a single test step to connect transports
+   * to, such as a dedicated stream or database.
+   */
+  createCluster(): ConformanceCluster;
+
+  /**
+   * Whether transports connected to the same cluster share their events and
+   * history, as opposed to transports keeping their state to themselves.
+   */
+  shared: boolean;
+
+  /**
+   * Query parameters limiting the number of updates to keep, and the number of
+   * updates that should be retained with them. The limit must be applied
+   * exactly; transports trimming their history approximately should set it
+   * to a multiple of their granularity.
+   */
+  retention?: { query: string; limit: number };
+
+  /**
+   * Whether the transport takes an `indexSize` option, limiting the number of
+   * update IDs it indexes for resuming history.
+   */
+  indexing?: boolean;
+
+  /**
+   * URI options to check parsing against: The options applied by default, and
+   * queries with invalid options, along with the name of the option at fault.
+   */
+  parsing?: {
+    transport: Transport;
+    uri: URL;
+    defaults: Record<string, unknown>;
+    invalid: Record<string, string>;
+  };
+
+  /**
+   * Maximum time to wait for events to be delivered or stored, in
+   * milliseconds.
+   */
+  timeout?: number;
+
+  /**
+   * Whether to check for async operations and resources leaking from the
+   * tests. Some clients keep timers around for a while after disconnecting.
+   */
+  sanitize?: boolean;
+
+  /**
+   * Whether to skip the suite, for example if the backend it runs against is
+   * not available.
+   */
+  ignore?: boolean;
+};
+
+export type ConformanceCluster = {
+  /**
+   * URI to connect transports to.
+   */
+  uri: URL;
+
+  /**
+   * Create a new transport instance, not connected yet.
+   */
+  create(): Transport;
+
+  /**
+   * Remove the backend once the test is done, such as dropping its table.
+   */
+  dispose?(): Promise<void>;
+};
+
+const eventTypes = [
+  "update",
+  "connect",
+  "disconnect",
+  "subscribe",
+  "unsubscribe",
+] as const satisfies (keyof EventMap)[];
+
+function createEvent<K extends keyof EventMap>(type: K, id: string): EventMap[K] {
+  return (
+    type === "update"
+      ? new MessageEvent(type, { data: createUpdate(id) })
+      : new CustomEvent(type, { detail: lifecycleDetail(type, id) })
+  ) as EventMap[K];
+}
+
+function lifecycleDetail(type: Exclude<keyof EventMap, "update">, id: string) {
+  return type === "connect" || type === "disconnect"
+    ? { subscriber: { id } }
+    : { subscription: { id, topic: "https://example.com/foo", active: true } };
+}
+
+function send(transport: Transport, ...ids: string[]) {
+  for (const id of ids) {
+    transport.dispatchEvent(createEvent("update", id));
+  }
+}
+
+function payload(event: EventMap[keyof EventMap]) {
+  return event instanceof MessageEvent ? event.data : (event as CustomEvent).detail;
+}
+
+async function replay(transport: Transport, lastEventId: string) {
+  return (await Array.fromAsync(transport.eventsAfter(lastEventId))).map(({ id }) => id);
+}
+
+function ids(count: number) {
+  return Array.from({ length: count }, (_, index) => `update-${index}`);
+}
@@ -0,0 +1,17 @@
+/**
+ * Thrown when replaying the history after an event ID the transport does not
+ * know, for example because the update has been evicted from the history
+ * already, or has never been published at all.
+ *
+ * Transports throwing this error must do so before yielding any updates, so
+ * callers may tell it apart from failures while replaying.
+ */
+export class UnknownEventIdError extends Error {
+  public readonly eventId: string;
+
+  constructor(eventId: string) {
+    super(`Unknown event ID: "${eventId}"`);
+    this.eventId = eventId;
+    Error.captureStackTrace(this, this.constructor);
+  }
+}
@@ -0,0 +1,569 @@
+import * as Log from "@std/log";
+import {
+  type Channel,
+  type ChannelModel,
+  type ConfirmChannel,
+  connect,
+  type ConsumeMessage,
+} from "amqplib";
+import { Buffer } from "node:buffer";
+import { z } from "zod";
+import { earliestEventId } from "../hub.ts";
+import { generateId, type Update } from "../updates.ts";
+import { UnknownEventIdError } from "./_errors.ts";
+import {
+  durationOption,
+  type EventMap,
+  type MessageEventListener,
+  sizeOption,
+  type Transport,
+} from "./mod.ts";
+import { ConnectionSupervisor, PublishQueue, UpdateIndex } from "./supervisor.ts";
+
+/**
+ * Number of unacknowledged messages to receive from the stream queue at once.
+ */
+const prefetchCount = 500;
+
+/**
+ * Time without new messages after which the index is considered to have
+ * caught up with the stream, in milliseconds.
+ */
+const catchUpIdleTime = 500;
+
+/**
+ * Maximum time to wait for updates published by this node to be indexed
+ * before replaying history, in milliseconds.
+ */
+const indexDeadline = 5_000;
+
+/**
+ * A transport type that distributes events via an AMQP 0-9-1 broker, such as
+ * RabbitMQ.
+ *
+ * All events are published to a topic exchange. Updates are routed using a key
+ * derived from their canonical topic, such as `update.example.com.books.1` for
+ * `https://example.com/books/1`, so other services can bind their own queues
+ * to the updates they are interested in. Lifecycle events are routed using
+ * `lifecycle.<type>` keys.
+ *
+ * Every hub node binds an exclusive queue to the exchange to receive all events
+ * from other nodes. Additionally, updates are stored in a RabbitMQ stream queue
+ * to replay history. While following the stream, the transport maintains an
+ * index from the latest update IDs to stream offsets, which allows to start
+ * replaying right after any of them. To build the index, the stream is read
+ * from the beginning when connecting; the connection is only established once
+ * the index has caught up with the stream.
+ *
+ * If the connection to the broker is lost, the transport reconnects using an
+ * exponential backoff, and resumes indexing the stream where it left off.
+ */
+export class AmqpTransport implements Transport<"amqp:", AmqpTransportOptions> {
+  public readonly protocol = "amqp:";
+  public readonly options = options;
+
+  /**
+   * Unique identifier of this hub node.
+   */
+  public readonly nodeId: string;
+
+  #_supervisor: ConnectionSupervisor<Connection> | undefined;
+  #target = new EventTarget();
+  #publishing = new PublishQueue();
+  #index = new UpdateIndex<Position>(defaultIndexSize);
+  #end = 0;
+  #sequence = 0;
+  #acknowledged = 0;
+  #indexed = 0;
+  #indexWaiters = new Set<() => void>();
+  #url = "";
+  #exchange = "mercure";
+  #queue = "mercure-updates";
+  #queueArguments: Record<string, unknown> = {};
+
+  /**
+   * Create a new AMQP transport.
+   *
+   * @param nodeId Unique identifier of this hub node
+   */
+  constructor(nodeId: string = generateId()) {
+    this.nodeId = nodeId;
+  }
+
+  async connect(
+    uri: URL,
+    _enableSubscriptionEvents: boolean,
+    { exchange, queue, maxAge, maxBytes, indexSize }: AmqpTransportOptions,
+  ) {
+    // The client interprets query parameters as connection settings, such as
+    // the heartbeat interval, so our own options must go.
+    const url = new URL(uri);
+
+    for (const name of Object.keys(transportOptions.shape)) {
+      url.searchParams.delete(name);
+    }
+
+    this.#url = url.href;
+    this.#exchange = exchange;
+    this.#queue = queue;
+    this.#index = new UpdateIndex(indexSize, maxAge);
+    this.#queueArguments = {
+      "x-queue-type": "stream",
+      ...(maxAge !== undefined ? { "x-max-age": `${Math.ceil(maxAge / 1_000)}s` } : {}),
+      ...(maxBytes !== undefined ? { "x-max-length-bytes": maxBytes } : {}),
+    };
+    this.#_supervisor = new ConnectionSupervisor(
+      "the AMQP broker",
+      () => this.#open(),
+      ({ model }) => void model.close().catch(() => {}),
+    );
+
+    await this.#supervisor.connect();
+  }
+
+  async close() {
+    const supervisor = this.#_supervisor;
+
+    // Let pending publishes complete while the broker is reachable, but don't
+    // wait for it to come back. Publishes still waiting for a connection are
+    // rejected once the supervisor has been closed.
+    if (supervisor?.status === "connected") {
+      await Promise.race([
+        this.#publishing.settled(),
+        new Promise((resolve) =>
+          supervisor.addEventListener("statuschange", resolve, { once: true })
+        ),
+      ]);
+    }
+
+    supervisor?.close();
+    await this.#publishing.settled();
+  }
+
+  /**
+   * Whether the transport is connected to the broker right now.
+   */
+  get status() {
+    return this.#_supervisor?.status ?? "connecting";
+  }
+
+  /**
+   * Replay all updates after the given event ID.
+   *
+   * The offset of the update is resolved from the index, so a short-lived
+   * consumer can start reading the stream right after it, up to the offset
+   * indexed last as of the start of the replay. Updates published by this
+   * node are only acknowledged by the broker, without their offsets, so the
+   * replay waits for the index to include those acknowledged so far first.
+   * If the update ID is unknown, for example because it has been removed from
+   * the stream by the retention policy, an {@link UnknownEventIdError} is
+   * thrown.
+   *
+   * @param lastEventId ID of the last update received by the client
+   */
+  async *eventsAfter(lastEventId = earliestEventId) {
+    await this.#waitForIndex(this.#acknowledged);
+
+    let start = 0;
+
+    if (lastEventId !== earliestEventId) {
+      const position = this.#index.get(lastEventId);
+
+      if (!position) {
+        throw new UnknownEventIdError(lastEventId);
+      }
+
+      start = position.offset + 1;
+    }
+
+    const end = this.#end;
+
+    if (start < end) {
+      yield* this.#read(start, end, lastEventId !== earliestEventId);
+    }
+  }
+
+  removeEventListener<K extends keyof EventMap>(
+    type: K,
+    listener: MessageEventListener<EventMap[K]>,
+  ) {
+    this.#target.removeEventListener(type, listener as EventListener);
+  }
+
+  addEventListener<K extends keyof EventMap>(
+    type: K,
+    listener: MessageEventListener<EventMap[K]>,
+    options?: AddEventListenerOptions,
+  ) {
+    this.#target.addEventListener(type, listener as EventListener, options);
+  }
+
+  dispatchEvent<K extends keyof EventMap>(event: EventMap[K]) {
+    this.#publishing.push(() => this.#publish(event));
+
+    return this.#target.dispatchEvent(event);
+  }
+
+  /**
+   * Publish an update, and resolve once the broker confirmed it.
+   *
+   * @param update Update to publish
+   * @param signal Signal to abort waiting for the confirmation
+   */
+  async publish(update: Update, signal?: AbortSignal) {
+    const event = new MessageEvent("update", { data: update });
+
+    await this.#publishing.run(() => this.#publish(event), signal);
+    this.#target.dispatchEvent(event);
+  }
+
+  get #supervisor() {
+    if (!this.#_supervisor) {
+      throw new Error(
+        "Unexpected state: Not connected. A connection should have " +
+          "been established before attempting to use it.",
+      );
+    }
+
+    return this.#_supervisor;
+  }
+
+  /**
+   * Connect to the broker, declare the exchange and queues, and start
+   * consuming. Resolves once the index has caught up with the stream.
+   */
+  async #open(): Promise<Connection> {
+    const model = await connect(this.#url);
+
+    // Errors are followed by a close event, which we handle below; without
+    // a listener, they would be thrown, though.
+    model.on("error", (error) => Log.error(`AMQP connection failed: ${error.message}`, { error }));
+
+    try {
+      const channel = await model.createConfirmChannel();
+      await channel.assertExchange(this.#exchange, "topic", { durable: true });
+      await channel.assertQueue(this.#queue, { durable: true, arguments: this.#queueArguments });
+      await channel.bindQueue(this.#queue, this.#exchange, "update.#");
+
+      const { queue } = await channel.assertQueue("", { exclusive: true, autoDelete: true });
+      await channel.bindQueue(queue, this.#exchange, "update.#");
+      await channel.bindQueue(queue, this.#exchange, "lifecycle.#");
+      await channel.consume(queue, (message) => message && this.#receive(message), {
+        noAck: true,
+      });
+
+      // Stream queues require consumers to acknowledge messages, which is
+      // why the index is built on a channel of its own.
+      const indexChannel = await model.createChannel();
+      await this.#follow(indexChannel);
+
+      const connection = { model, channel };
+      const lost = () => void this.#supervisor.lost(connection, new Error("Connection closed"));
+
+      // Channels are closed by the broker on errors, without closing the
+      // connection, so we reconnect in that case, too
+      model.on("close", lost);
+      channel.on("close", lost);
+      indexChannel.on("close", lost);
+
+      return connection;
+    } catch (error) {
+      await model.close().catch(() => {});
+
+      throw error;
+    }
+  }
+
+  /**
+   * Follow the stream queue to index its updates, starting after the last
+   * offset indexed already. Resolves once the index has caught up.
+   *
+   * Consumers aren't told when they reach the end of a stream, so the index is
+   * considered to have caught up once the consumer delivers a message published
+   * after it started, or no messages for a moment.
+   *
+   * @param channel Channel to consume the stream queue on
+   */
+  async #follow(channel: Channel) {
+    const startedAt = Date.now();
+    const { promise: caughtUp, resolve, reject } = Promise.withResolvers<void>();
+    let following = false;
+    let timer: number | undefined;
+
+    const done = () => {
+      following = true;
+      clearTimeout(timer);
+      resolve();
+    };
+    const wait = () => {
+      clearTimeout(timer);
+      timer = setTimeout(done, catchUpIdleTime);
+    };
+
+    await channel.prefetch(prefetchCount);
+    await channel.consume(this.#queue, (message) => {
+      if (!message) {
+        return;
+      }
+
+      channel.ack(message);
+      this.#indexMessage(message);
+
+      if (following) {
+        return;
+      }
+
+      // Timestamps are given in seconds
+      if (message.properties.timestamp * 1_000 > startedAt) {
+        done();
+      } else {
+        wait();
+      }
+    }, { arguments: { "x-stream-offset": this.#end } });
+
+    channel.once("close", () => reject(new Error("Channel closed while catching up")));
+    wait();
+    await caughtUp;
+  }
+
+  async #publish(event: EventMap[keyof EventMap]) {
+    const update = isUpdateEvent(event);
+
+    // Wait for the broker, should we be reconnecting right now
+    const connection = await this.#supervisor.ready;
+
+    if (!connection) {
+      throw new Error("Transport closed");
+    }
+
+    const { channel } = connection;
+    const sequence = update ? ++this.#sequence : undefined;
+
+    channel.publish(
+      this.#exchange,
+      update ? topicRoutingKey(event.data.canonicalTopic) : `lifecycle.${event.type}`,
+      Buffer.from(JSON.stringify(update ? event.data : event.detail)),
+      {
+        type: event.type,
+        messageId: update ? event.data.id : undefined,
+        contentType: "application/json",
+        persistent: true,
+        timestamp: Math.floor(Date.now() / 1_000),
+        headers: { "mercure-node": this.nodeId, "mercure-sequence": sequence },
+      },
+    );
+    await channel.waitForConfirms();
+
+    if (sequence) {
+      this.#acknowledged = Math.max(this.#acknowledged, sequence);
+    }
+  }
+
+  /**
+   * Handle a message received from the exchange.
+   *
+   * @param message Message to handle
+   */
+  #receive({ content, properties }: ConsumeMessage) {
+    const type = properties.type as string | undefined;
+
+    // Events dispatched by this node have been delivered locally already
+    if (!type || properties.headers?.["mercure-node"] === this.nodeId) {
+      return;
+    }
+
+    const data = JSON.parse(content.toString());
+    const event = type === "update"
+      ? new MessageEvent(type, { data })
+      : new CustomEvent(type, { detail: data });
+
+    this.#target.dispatchEvent(event);
+  }
+
+  /**
+   * Add an update read from the stream to the index, and keep track of the
+   * messages published by this node that have been read.
+   */
+  #indexMessage(message: ConsumeMessage) {
+    const offset = streamOffset(message);
+    const { type, messageId, timestamp, headers } = message.properties;
+    this.#end = offset + 1;
+
+    if (headers?.["mercure-node"] === this.nodeId) {
+      this.#indexed = Math.max(this.#indexed, Number(headers["mercure-sequence"]) || 0);
+      this.#indexWaiters.forEach((notify) => notify());
+    }
+
+    if (type === "update" && messageId) {
+      this.#index.set(messageId, { offset }, timestamp * 1_000);
+    }
+  }
+
+  /**
+   * Wait until the index includes the update published by this node with the
+   * given sequence number, or the deadline has passed.
+   *
+   * @param sequence Sequence number of the update
+   */
+  async #waitForIndex(sequence: number) {
+    const deadline = Date.now() + indexDeadline;
+
+    while (this.#indexed < sequence && Date.now() < deadline) {
+      const { promise, resolve } = Promise.withResolvers<void>();
+      const timer = setTimeout(resolve, deadline - Date.now());
+      this.#indexWaiters.add(resolve);
+
+      await promise;
+      clearTimeout(timer);
+      this.#indexWaiters.delete(resolve);
+    }
+  }
+
+  /**
+   * Read the given offset range of the stream queue.
+   *
+   * @param start First offset to read, inclusive
+   * @param end Last offset to read, exclusive
+   * @param resume Whether the replay resumes after a known update, which must
+   *               still be in the stream
+   */
+  async *#read(start: number, end: number, resume: boolean) {
+    const connection = await this.#supervisor.ready;
+
+    if (!connection) {
+      throw new Error("Transport closed");
+    }
+
+    const channel: Channel = await connection.model.createChannel();
+    let controller: ReadableStreamDefaultController<ConsumeMessage>;
+    const messages = new ReadableStream<ConsumeMessage>({
+      start: (streamController) => void (controller = streamController),
+    });
+
+    try {
+      await channel.prefetch(prefetchCount);
+      await channel.consume(this.#queue, (message) => {
+        // The consumer has been cancelled by the broker
+        if (!message) {
+          return controller.close();
+        }
+
+        channel.ack(message);
+        controller.enqueue(message);
+      }, { arguments: { "x-stream-offset": start } });
+
+      for await (const message of messages) {
+        const offset = streamOffset(message);
+
+        if (offset < start) {
+          continue;
+        }
+
+        // The offset we're resuming from has been removed by the retention
+        // policy in the meantime, so the client has missed some updates.
+        if (resume && offset > start) {
+          return;
+        }
+
+        resume = false;
+
+        if (message.properties.type === "update") {
+          yield JSON.parse(message.content.toString()) as Update;
+        }
+
+        if (offset + 1 >= end) {
+          return;
+        }
+      }
+    } finally {
+      await channel.close().catch(() => {});
+    }
+  }
+}
+
+/**
+ * Derive the routing key of an update from its canonical topic.
+ *
+ * The scheme is dropped, and the remaining topic is split into words at every
+ * dot and slash, so `https://example.com/books/1` becomes
+ * `update.example.com.books.1`. Routing keys are limited to 255 bytes, so
+ * longer keys are truncated.
+ *
+ * @param topic Canonical topic of the update
+ */
+export function topicRoutingKey(topic: string) {
+  const words = topic
+    .replace(/^[a-z][a-z0-9+.-]*:\/\//i, "")
+    .split(/[./]/)
+    .filter(Boolean);
+  let key = ["update", ...words].join(".");
+
+  while (new TextEncoder().encode(key).length > 255) {
+    key = key.slice(0, -1);
+  }
+
+  return key;
+}
+
+function streamOffset({ properties }: ConsumeMessage) {
+  return Number(properties.headers?.["x-stream-offset"]);
+}
+
+const defaultIndexSize = 100_000;
+
+const transportOptions = z.object({
+  exchange: z
+    .string({ description: "Name of the topic exchange to publish events to." })
+    .min(1)
+    .default("mercure"),
+  queue: z
+    .string({ description: "Name of the stream queue to store updates in." })
+    .min(1)
+    .default("mercure-updates"),
+  maxAge: durationOption("Maximum age of updates to keep when creating the queue, such as 24h.")
+    .optional(),
+  maxBytes: sizeOption("Maximum size of all updates to keep when creating the queue, such as 1g.")
+    .optional(),
+  indexSize: z.coerce
+    .number({
+      description:
+        "Maximum number of update IDs to index for resuming history. Defaults to 100000.",
+    })
+    .int()
+    .positive()
+    .default(defaultIndexSize),
+});
+
+/**
+ * Connection settings of the AMQP client. They are left in the connection
+ * URL, and interpreted by the client when connecting.
+ */
+const clientSettings = z.object({
+  channelMax: clientSetting("Maximum number of channels. Defaults to no limit."),
+  frameMax: clientSetting("Maximum size of frames, in bytes. Defaults to 131072."),
+  heartbeat: clientSetting("Interval of heartbeats, in seconds. Defaults to none."),
+  locale: clientSetting("Locale of error messages sent by the broker. Defaults to en_US."),
+});
+
+const options = transportOptions.merge(clientSettings).strict();
+
+type AmqpTransportOptions = z.output<typeof options>;
+
+type Connection = {
+  model: ChannelModel;
+  channel: ConfirmChannel;
+};
+
+type Position = {
+  offset: number;
+};
+
+function clientSetting(description: string) {
+  return z.string({ description }).optional();
+}
+
+function isUpdateEvent(
+  event: EventMap[keyof EventMap],
+): event is MessageEvent<Update> {
+  return event.type === "update";
+}
@@ -0,0 +1,491 @@
+import {
+  BACKWARDS,
+  END,
+  EventStoreDBClient,
+  jsonEvent,
+  type ResolvedEvent,
+  START,
+  type StreamSubscription,
+} from "@eventstore/db-client";
+import { LRU } from "lru";
+import { z } from "zod";
+import { earliestEventId } from "../hub.ts";
+import { generateId, type Update } from "../updates.ts";
+import { UnknownEventIdError } from "./_errors.ts";
+import { durationOption, type EventMap, type MessageEventListener, type Transport } from "./mod.ts";
+import { ConnectionSupervisor, PublishQueue } from "./supervisor.ts";
+
+/**
+ * Maximum number of events to scan backwards when resolving an update ID that
+ * is not in the revision cache.
+ */
+const maxScanCount = 10_000;
+
+/**
+ * A transport type that distributes events via EventStoreDB.
+ *
+ * Updates are appended as events to the update stream of the configured
+ * category, and lifecycle events to its lifecycle stream; for the default
+ * `mercure` category, these are `mercure-updates` and `mercure-lifecycle`.
+ * Every hub node follows both streams using catch-up subscriptions starting at
+ * their current end, so each of them receives all new events. If a subscription
+ * fails or ends, both are resubscribed from the last revision received, so no
+ * events are missed while the node is unreachable.
+ *
+ * The update ID is stored as the event ID, so clients can resume replaying
+ * history using the IDs they already have. EventStoreDB requires event IDs to
+ * be UUIDs: Hub-generated IDs already are; other IDs are mapped to name-based
+ * UUIDs. As events cannot be looked up by their ID, the stream revision of
+ * every update received is cached, and the stream is scanned backwards for IDs
+ * missing from the cache.
+ */
+export class EventStoreDBTransport
+  implements Transport<"eventstoredb:", EventStoreDBTransportOptions> {
+  public readonly protocol = "eventstoredb:";
+  public readonly options = options;
+
+  /**
+   * Unique identifier of this hub node.
+   */
+  public readonly nodeId: string;
+
+  #_client: EventStoreDBClient | undefined;
+  #_supervisor: ConnectionSupervisor<StreamSubscription[]> | undefined;
+  #positions = new Map<string, bigint | undefined>();
+  #target = new EventTarget();
+  #appending = new PublishQueue();
+  #revisions = new LRU<bigint>(100_000);
+  #updateStream = "mercure-updates";
+  #lifecycleStream = "mercure-lifecycle";
+
+  /**
+   * Create a new EventStoreDB transport.
+   *
+   * @param nodeId Unique identifier of this hub node
+   */
+  constructor(nodeId: string = generateId()) {
+    this.nodeId = nodeId;
+  }
+
+  async connect(
+    uri: URL,
+    _enableSubscriptionEvents: boolean,
+    { category, maxCount, maxAge }: EventStoreDBTransportOptions,
+  ) {
+    // The client expects an "esdb" connection string, and interprets query
+    // parameters as connection settings, so our own options must go.
+    const connectionString = new URL(uri.href.replace(/^eventstoredb:/, "esdb:"));
+
+    for (const name of Object.keys(transportOptions.shape)) {
+      connectionString.searchParams.delete(name);
+    }
+
+    this.#updateStream = `${category}-updates`;
+    this.#lifecycleStream = `${category}-lifecycle`;
+    this.#_client = EventStoreDBClient.connectionString(connectionString.href);
+
+    if (maxCount !== undefined || maxAge !== undefined) {
+      await this.#client.setStreamMetadata(this.#updateStream, {
+        maxCount,
+        maxAge: maxAge === undefined ? undefined : Math.ceil(maxAge / 1_000),
+      });
+    }
+
+    // Start following both streams at their current end
+    for (const stream of [this.#updateStream, this.#lifecycleStream]) {
+      this.#positions.set(stream, await this.#lastRevision(stream));
+    }
+
+    this.#_supervisor = new ConnectionSupervisor(
+      "EventStoreDB",
+      () => this.#subscribe(),
+      (subscriptions) => {
+        for (const subscription of subscriptions) {
+          void subscription.unsubscribe().catch(() => {});
+        }
+      },
+    );
+
+    await this.#supervisor.connect();
+  }
+
+  async close() {
+    this.#_supervisor?.close();
+    await this.#client.dispose();
+  }
+
+  /**
+   * Whether the subscriptions to the streams are active right now.
+   */
+  get status() {
+    return this.#_supervisor?.status ?? "connecting";
+  }
+
+  /**
+   * Replay all updates after the given event ID.
+   *
+   * The update ID is resolved to its revision in the update stream first, so
+   * the stream can be read forward from the following revision.
+   * If the update ID is unknown, for example because it has been removed from
+   * the stream by the retention policy, an {@link UnknownEventIdError} is
+   * thrown.
+   *
+   * @param lastEventId ID of the last update received by the client
+   */
+  async *eventsAfter(lastEventId = earliestEventId) {
+    let fromRevision = 0n;
+
+    if (lastEventId !== earliestEventId) {
+      const revision = await this.#resolveRevision(lastEventId);
+
+      if (revision === undefined) {
+        throw new UnknownEventIdError(lastEventId);
+      }
+
+      fromRevision = revision + 1n;
+    }
+
+    try {
+      const events = this.#client.readStream(this.#updateStream, { fromRevision });
+
+      for await (const { event } of events) {
+        if (event) {
+          this.#revisions.set(event.id, event.revision);
+
+          yield event.data as Update;
+        }
+      }
+    } catch (error) {
+      // Nothing has been published yet
+      if (error.type === "stream-not-found") {
+        return;
+      }
+
+      throw error;
+    }
+  }
+
+  removeEventListener<K extends keyof EventMap>(
+    type: K,
+    listener: MessageEventListener<EventMap[K]>,
+  ) {
+    this.#target.removeEventListener(type, listener as EventListener);
+  }
+
+  addEventListener<K extends keyof EventMap>(
+    type: K,
+    listener: MessageEventListener<EventMap[K]>,
+    options?: AddEventListenerOptions,
+  ) {
+    this.#target.addEventListener(type, listener as EventListener, options);
+  }
+
+  dispatchEvent<K extends keyof EventMap>(event: EventMap[K]) {
+    this.#appending.push(() => this.#append(event));
+
+    return this.#target.dispatchEvent(event);
+  }
+
+  /**
+   * Publish an update, and resolve once it has been appended to the stream.
+   *
+   * @param update Update to publish
+   * @param signal Signal to abort waiting for the update to be appended
+   */
+  async publish(update: Update, signal?: AbortSignal) {
+    const event = new MessageEvent("update", { data: update });
+
+    await this.#appending.run(() => this.#append(event), signal);
+    this.#target.dispatchEvent(event);
+  }
+
+  get #client() {
+    if (!this.#_client) {
+      throw new Error(
+        "Unexpected state: Not connected. A connection should have " +
+          "been established before attempting to use it.",
+      );
+    }
+
+    return this.#_client;
+  }
+
+  get #supervisor() {
+    if (!this.#_supervisor) {
+      throw new Error(
+        "Unexpected state: Not connected. A connection should have " +
+          "been established before attempting to use it.",
+      );
+    }
+
+    return this.#_supervisor;
+  }
+
+  async #append(event: EventMap[keyof EventMap]) {
+    const update = isUpdateEvent(event);
+
+    await this.#client.appendToStream(
+      update ? this.#updateStream : this.#lifecycleStream,
+      jsonEvent({
+        id: update ? await toEventId(event.data.id) : crypto.randomUUID(),
+        type: event.type,
+        data: JSON.parse(JSON.stringify(update ? event.data : event.detail)),
+        metadata: { node: this.nodeId },
+      }),
+    );
+  }
+
+  /**
+   * Subscribe to both streams, after the last revision received from each.
+   *
+   * Resolves once the server has confirmed both subscriptions, so failing to
+   * subscribe fails to connect, and is retried using the backoff.
+   */
+  async #subscribe() {
+    const subscriptions = [this.#updateStream, this.#lifecycleStream].map((stream) => {
+      // Subscriptions start after the given revision, or at the start of
+      // streams that did not exist when connecting
+      const revision = this.#positions.get(stream);
+
+      return [
+        stream,
+        this.#client.subscribeToStream(stream, {
+          fromRevision: revision ?? START,
+        }),
+      ] as const;
+    });
+    const connection = subscriptions.map(([, subscription]) => subscription);
+    const confirmed = Promise.all(
+      connection.map((subscription) =>
+        new Promise<void>((resolve) => subscription.once("confirmation", resolve))
+      ),
+    );
+    const ended = Promise.race(
+      subscriptions.map(([stream, subscription]) => this.#listen(stream, subscription, connection)),
+    );
+
+    try {
+      await Promise.race([
+        confirmed,
+        ended.then((cause) => Promise.reject(cause)),
+      ]);
+    } catch (error) {
+      for (const subscription of connection) {
+        void subscription.unsubscribe().catch(() => {});
+      }
+
+      throw error;
+    }
+
+    return connection;
+  }
+
+  /**
+   * Dispatch the events received by a subscription, until it ends. However it
+   * ends, the connection is considered lost, so both streams are resubscribed.
+   *
+   * @returns The reason the subscription has ended
+   */
+  async #listen(
+    stream: string,
+    subscription: StreamSubscription,
+    connection: StreamSubscription[],
+  ) {
+    let cause = new Error(`Subscription to ${stream} ended`);
+
+    try {
+      for await (const { event } of subscription as AsyncIterable<ResolvedEvent>) {
+        if (!event) {
+          continue;
+        }
+
+        this.#positions.set(stream, event.revision);
+
+        if (event.type === "update") {
+          this.#revisions.set(event.id, event.revision);
+        }
+
+        // Events dispatched by this node have been delivered locally already
+        if ((event.metadata as { node?: string } | undefined)?.node === this.nodeId) {
+          continue;
+        }
+
+        this.#target.dispatchEvent(
+          event.type === "update"
+            ? new MessageEvent(event.type, { data: event.data })
+            : new CustomEvent(event.type, { detail: event.data }),
+        );
+      }
+    } catch (error) {
+      cause = error;
+    }
+
+    // The subscription may end before the supervisor has taken over the
+    // connection, so wait for it. Replaced connections are ignored.
+    void this.#supervisor.ready.then((current) =>
+      current && this.#supervisor.lost(connection, cause)
+    );
+
+    return cause;
+  }
+
+  /**
+   * Resolve the revision of the last event in a stream.
+   *
+   * @param stream Name of the stream
+   * @returns The revision, or `undefined` if the stream does not exist yet
+   */
+  async #lastRevision(stream: string) {
+    try {
+      const events = this.#client.readStream(stream, {
+        direction: BACKWARDS,
+        fromRevision: END,
+        maxCount: 1,
+      });
+
+      for await (const { event } of events) {
+        return event?.revision;
+      }
+    } catch (error) {
+      if (error.type !== "stream-not-found") {
+        throw error;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Resolve the revision of an update in the update stream.
+   *
+   * @param updateId ID of the update
+   */
+  async #resolveRevision(updateId: string) {
+    const eventId = await toEventId(updateId);
+
+    if (this.#revisions.has(eventId)) {
+      return this.#revisions.get(eventId)!;
+    }
+
+    try {
+      const events = this.#client.readStream(this.#updateStream, {
+        direction: BACKWARDS,
+        fromRevision: END,
+        maxCount: maxScanCount,
+      });
+
+      for await (const { event } of events) {
+        if (event?.id === eventId) {
+          this.#revisions.set(eventId, event.revision);
+
+          return event.revision;
+        }
+      }
+    } catch (error) {
+      if (error.type !== "stream-not-found") {
+        throw error;
+      }
+    }
+
+    return undefined;
+  }
+}
+
+/**
+ * Map an update ID to an event ID.
+ *
+ * EventStoreDB requires event IDs to be UUIDs. IDs generated by the hub are
+ * UUID URNs, which are used as-is; any other ID is mapped to a name-based UUID
+ * (version 5), so the same update ID always results in the same event ID.
+ *
+ * @param updateId ID of the update
+ */
+export async function toEventId(updateId: string) {
+  const id = updateId.replace(/^urn:uuid:/i, "");
+
+  if (uuidPattern.test(id)) {
+    return id.toLowerCase();
+  }
+
+  const name = new TextEncoder().encode(updateId);
+  const input = new Uint8Array(urlNamespace.length + name.length);
+  input.set(urlNamespace);
+  input.set(name, urlNamespace.length);
+
+  const bytes = new Uint8Array(await crypto.subtle.digest("SHA-1", input)).slice(0, 16);
+  bytes[6] = (bytes[6] & 0x0f) | 0x50;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+
+  const hex = Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("");
+
+  return [
+    hex.slice(0, 8),
+    hex.slice(8, 12),
+    hex.slice(12, 16),
+    hex.slice(16, 20),
+    hex.slice(20),
+  ].join("-");
+}
+
+const uuidPattern = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * The URL namespace defined in RFC 4122, Appendix C.
+ */
+const urlNamespace = Uint8Array.from(
+  "6ba7b8119dad11d180b400c04fd430c8".match(/../g)!,
+  (byte) => parseInt(byte, 16),
+);
+
+const transportOptions = z.object({
+  category: z
+    .string({
+      description: "Category of the streams to append events to. Defaults to mercure.",
+    })
+    .regex(/^[a-zA-Z0-9_]+$/, "Must only contain letters, digits and underscores")
+    .default("mercure"),
+  maxCount: z.coerce
+    .number({ description: "Maximum number of updates to keep." })
+    .int()
+    .positive()
+    .optional(),
+  maxAge: durationOption("Maximum age of updates to keep, such as 30m or 24h.").optional(),
+});
+
+/**
+ * Connection settings of the EventStoreDB client. They are left in the
+ * connection string, and validated by the client when connecting.
+ */
+const clientSettings = z.object({
+  connectionName: clientSetting("Name of the connection, shown in the server logs."),
+  defaultDeadline: clientSetting("Default deadline of calls, in milliseconds."),
+  discoveryInterval: clientSetting("Delay between cluster discovery attempts, in milliseconds."),
+  dnsDiscover: clientSetting("Whether to discover the cluster via DNS."),
+  gossipTimeout: clientSetting("Timeout of gossip requests, in milliseconds."),
+  keepAliveInterval: clientSetting("Interval of keep-alive pings, in milliseconds."),
+  keepAliveTimeout: clientSetting("Timeout of keep-alive pings, in milliseconds."),
+  maxDiscoverAttempts: clientSetting("Maximum number of cluster discovery attempts."),
+  nodePreference: clientSetting(
+    "Preferred cluster node: leader, follower, readonlyreplica or random.",
+  ),
+  throwOnAppendFailure: clientSetting("Whether failed appends throw."),
+  tls: clientSetting("Whether to connect using TLS. Defaults to true."),
+  tlsCAFile: clientSetting("Path of the certificate authority file to trust."),
+  tlsVerifyCert: clientSetting("Whether to verify the server certificate."),
+  userCertFile: clientSetting("Path of the client certificate file."),
+  userKeyFile: clientSetting("Path of the client certificate key file."),
+});
+
+const options = transportOptions.merge(clientSettings).strict();
+
+type EventStoreDBTransportOptions = z.output<typeof options>;
+
+function clientSetting(description: string) {
+  return z.string({ description }).optional();
+}
+
+function isUpdateEvent(
+  event: EventMap[keyof EventMap],
+): event is MessageEvent<Update> {
+  return event.type === "update";
+}
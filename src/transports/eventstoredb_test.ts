@@ -0,0 +1,85 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { ZodError } from "zod";
+import { testTransportConformance } from "./_conformance.ts";
+import { EventStoreDBTransport, toEventId } from "./eventstoredb.ts";
+import { parseTransportOptions } from "./mod.ts";
+
+/**
+ * URI of the EventStoreDB node to run the tests against, for example
+ * `eventstoredb://localhost:2113?tls=false` for an insecure local node. The
+ * tests use their own stream category.
+ */
+const uri = Deno.env.get("MERCURE_TEST_EVENTSTOREDB_URI");
+
+testTransportConformance("EventStoreDB", {
+  createCluster() {
+    const url = new URL(uri!);
+    url.searchParams.set("category", createCategory());
+
+    return { uri: url, create: () => new EventStoreDBTransport() };
+  },
+  shared: true,
+  retention: { query: "maxCount=3", limit: 3 },
+  timeout: 5_000,
+  // The gRPC client keeps timers around for a while after disposal
+  sanitize: false,
+  ignore: !uri,
+});
+
+Deno.test("EventStoreDB transport options", async (ctx) => {
+  const transport = new EventStoreDBTransport();
+  const parse = (query: string) =>
+    parseTransportOptions(transport, new URL(`eventstoredb://localhost:2113?${query}`));
+
+  await ctx.step("Apply defaults", () => {
+    assertEquals(parse(""), { category: "mercure" });
+  });
+
+  await ctx.step("Accept connection settings of the client", () => {
+    assertEquals(parse("tls=false&nodePreference=leader"), {
+      category: "mercure",
+      tls: "false",
+      nodePreference: "leader",
+    });
+  });
+
+  await ctx.step("Parse retention", () => {
+    assertEquals(parse("maxCount=100&maxAge=1h"), {
+      category: "mercure",
+      maxCount: 100,
+      maxAge: 3_600_000,
+    });
+  });
+
+  await ctx.step("Reject invalid categories", () => {
+    assertThrows(() => parse("category=foo-bar"), ZodError, "category");
+  });
+
+  await ctx.step("Reject unknown parameters", () => {
+    assertThrows(() => parse("maxLength=5"), ZodError, "maxLength");
+  });
+});
+
+Deno.test("EventStoreDB event IDs", async (ctx) => {
+  await ctx.step("Use UUIDs generated by the hub as-is", async () => {
+    assertEquals(
+      await toEventId("urn:uuid:E1EE88E2-532A-4D6F-BA70-F0F8BD584022"),
+      "e1ee88e2-532a-4d6f-ba70-f0f8bd584022",
+    );
+    assertEquals(
+      await toEventId("e1ee88e2-532a-4d6f-ba70-f0f8bd584022"),
+      "e1ee88e2-532a-4d6f-ba70-f0f8bd584022",
+    );
+  });
+
+  await ctx.step("Map other IDs to name-based UUIDs", async () => {
+    assertEquals(
+      await toEventId("https://example.com/updates/1"),
+      "275cb80f-914d-5fa3-893d-e4ba30cc5929",
+    );
+  });
+});
+
+function createCategory() {
+  return `mercure_test_${crypto.randomUUID().replaceAll("-", "").slice(0, 12)}`;
+}
@@ -0,0 +1,415 @@
+import * as Log from "@std/log";
+import { fromFileUrl, join } from "@std/path";
+import { z } from "zod";
+import { earliestEventId } from "../hub.ts";
+import { isUpdate, type Update } from "../updates.ts";
+import { UnknownEventIdError } from "./_errors.ts";
+import {
+  durationOption,
+  type EventMap,
+  type MessageEventListener,
+  sizeOption,
+  type Transport,
+} from "./mod.ts";
+import { PublishQueue, UpdateIndex } from "./supervisor.ts";
+
+/**
+ * A transport type that appends updates to log files in a directory.
+ *
+ * Every update is written as a single line of JSON to the current segment,
+ * named after its sequence number, such as `0000000001.ndjson`. Once the
+ * segment exceeds the configured size or age, a new one is started, and old
+ * segments are deleted once the log exceeds its maximum size or age. As the
+ * segments are plain NDJSON files, they double as an audit trail that can be
+ * inspected using standard tools.
+ *
+ * When connecting, all segments are read to build an index from the latest
+ * update IDs to the position right after the update, so history can be
+ * replayed by seeking straight to it. The log is owned by a single hub
+ * instance; lifecycle events are delivered locally only.
+ */
+export class FileTransport implements Transport<"file:", FileTransportOptions> {
+  public readonly protocol = "file:";
+  public readonly options = options;
+
+  #directory = "";
+  #segments: Segment[] = [];
+  #index = new UpdateIndex<Position>(defaultIndexSize);
+  #file: Deno.FsFile | undefined;
+  #target = new EventTarget();
+  #writing = new PublishQueue();
+  #segmentSize = defaultSegmentSize;
+  #segmentAge = defaultSegmentAge;
+  #maxSize: number | undefined;
+  #maxAge: number | undefined;
+
+  async connect(
+    uri: URL,
+    _enableSubscriptionEvents: boolean,
+    { segmentSize, segmentAge, maxSize, maxAge, indexSize }: FileTransportOptions,
+  ) {
+    this.#directory = fromFileUrl(uri);
+    this.#segmentSize = segmentSize;
+    this.#segmentAge = segmentAge;
+    this.#maxSize = maxSize;
+    this.#maxAge = maxAge;
+    this.#index = new UpdateIndex(indexSize);
+
+    await Deno.mkdir(this.#directory, { recursive: true });
+    await this.#load();
+    await this.#prune();
+  }
+
+  async close() {
+    await this.#writing.settled();
+    this.#file?.close();
+    this.#file = undefined;
+  }
+
+  /**
+   * Replay all updates after the given event ID.
+   *
+   * The position of the update is looked up in the index, so we can start
+   * reading right after it, and continue with all following segments.
+   * If the update ID is unknown, for example because its segment has been
+   * deleted already, or it has been evicted from the index, an
+   * {@link UnknownEventIdError} is thrown.
+   *
+   * @param lastEventId ID of the last update received by the client
+   */
+  async *eventsAfter(lastEventId = earliestEventId) {
+    let start: Position | undefined;
+
+    if (lastEventId !== earliestEventId) {
+      start = this.#index.get(lastEventId);
+
+      if (!start) {
+        throw new UnknownEventIdError(lastEventId);
+      }
+    }
+
+    // Only read up to the current size of each segment, so we never read
+    // an update that is still being written.
+    const segments = this.#segments
+      .filter(({ number }) => !start || number >= start.segment)
+      .map(({ number, size }) => ({ number, size }));
+
+    for (const { number, size } of segments) {
+      const offset = number === start?.segment ? start.offset : 0;
+
+      try {
+        for await (const { line } of readLines(this.#path(number), offset, size)) {
+          const update = parseLine(line);
+
+          if (update) {
+            yield update;
+          }
+        }
+      } catch (error) {
+        // The segment has been deleted while replaying
+        if (!(error instanceof Deno.errors.NotFound)) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  removeEventListener<K extends keyof EventMap>(
+    type: K,
+    listener: MessageEventListener<EventMap[K]>,
+  ) {
+    this.#target.removeEventListener(type, listener as EventListener);
+  }
+
+  addEventListener<K extends keyof EventMap>(
+    type: K,
+    listener: MessageEventListener<EventMap[K]>,
+    options?: AddEventListenerOptions,
+  ) {
+    this.#target.addEventListener(type, listener as EventListener, options);
+  }
+
+  dispatchEvent<K extends keyof EventMap>(event: EventMap[K]) {
+    if (isUpdateEvent(event)) {
+      const update = event.data;
+
+      this.#writing.push(() => this.#append(update));
+    }
+
+    return this.#target.dispatchEvent(event);
+  }
+
+  /**
+   * Publish an update, and resolve once it has been appended to the log.
+   *
+   * @param update Update to publish
+   * @param signal Signal to abort waiting for the update to be appended
+   */
+  async publish(update: Update, signal?: AbortSignal) {
+    await this.#writing.run(() => this.#append(update), signal);
+    this.#target.dispatchEvent(new MessageEvent("update", { data: update }));
+  }
+
+  async store(updates: Update[]) {
+    await this.#writing.run(async () => {
+      for (const update of updates) {
+        await this.#append(update);
+      }
+    });
+  }
+
+  /**
+   * Read all existing segments, and build the index from their contents.
+   */
+  async #load() {
+    const numbers: number[] = [];
+
+    for await (const { name, isFile } of Deno.readDir(this.#directory)) {
+      const match = name.match(segmentPattern);
+
+      if (isFile && match) {
+        numbers.push(Number(match[1]));
+      }
+    }
+
+    this.#segments = [];
+    this.#index.clear();
+
+    for (const number of numbers.sort((a, b) => a - b)) {
+      const path = this.#path(number);
+      const { mtime } = await Deno.stat(path);
+      let size = 0;
+
+      // A line without a trailing newline has not been written completely,
+      // and is therefore skipped, just like malformed lines.
+      for await (const { line, end } of readLines(path)) {
+        const update = parseLine(line);
+        size = end;
+
+        if (update) {
+          this.#index.set(update.id, { segment: number, offset: end });
+        }
+      }
+
+      this.#segments.push({
+        number,
+        size,
+        createdAt: mtime?.getTime() ?? Date.now(),
+        modifiedAt: mtime?.getTime() ?? Date.now(),
+      });
+    }
+  }
+
+  async #append(update: Update) {
+    const segment = await this.#rotate();
+    const bytes = encoder.encode(`${JSON.stringify(update)}\n`);
+
+    for (let written = 0; written < bytes.length;) {
+      written += await this.#file!.write(bytes.subarray(written));
+    }
+
+    segment.size += bytes.length;
+    segment.modifiedAt = Date.now();
+    this.#index.set(update.id, { segment: segment.number, offset: segment.size });
+
+    await this.#prune();
+  }
+
+  /**
+   * Retrieve the segment to append to, starting a new one if there is none
+   * yet, or the current one has grown too large or too old.
+   *
+   * Segments written by a previous hub instance are never appended to, as
+   * they may end with a partially written line.
+   */
+  async #rotate() {
+    const current = this.#segments.at(-1);
+
+    if (
+      this.#file && current &&
+      current.size < this.#segmentSize &&
+      Date.now() - current.createdAt < this.#segmentAge
+    ) {
+      return current;
+    }
+
+    this.#file?.close();
+
+    const now = Date.now();
+    const segment: Segment = {
+      number: (current?.number ?? 0) + 1,
+      size: 0,
+      createdAt: now,
+      modifiedAt: now,
+    };
+
+    this.#file = await Deno.open(this.#path(segment.number), {
+      append: true,
+      createNew: true,
+    });
+    this.#segments.push(segment);
+
+    return segment;
+  }
+
+  /**
+   * Delete the oldest segments while the log exceeds its maximum size or age.
+   * The latest segment is always kept.
+   */
+  async #prune() {
+    const now = Date.now();
+    let total = this.#segments.reduce((sum, { size }) => sum + size, 0);
+
+    while (this.#segments.length > 1) {
+      const [oldest] = this.#segments;
+      const tooLarge = this.#maxSize !== undefined && total > this.#maxSize;
+      const tooOld = this.#maxAge !== undefined && now - oldest.modifiedAt > this.#maxAge;
+
+      if (!tooLarge && !tooOld) {
+        break;
+      }
+
+      this.#segments.shift();
+      total -= oldest.size;
+
+      // Entries are ordered by position, so those of the oldest segment are
+      // all at the start of the index
+      for (const [id, { segment }] of this.#index) {
+        if (segment > oldest.number) {
+          break;
+        }
+
+        this.#index.delete(id);
+      }
+
+      await Deno.remove(this.#path(oldest.number));
+    }
+  }
+
+  #path(segment: number) {
+    return join(this.#directory, `${String(segment).padStart(10, "0")}.ndjson`);
+  }
+}
+
+/**
+ * Read the complete lines of a file in the given byte range.
+ *
+ * @param path Path of the file to read
+ * @param start Offset to start reading at
+ * @param end Offset to stop reading at
+ * @returns The lines, along with the offset right after each of them
+ */
+async function* readLines(path: string, start = 0, end = Infinity) {
+  using file = await Deno.open(path);
+  await file.seek(start, Deno.SeekMode.Start);
+
+  const buffer = new Uint8Array(chunkSize);
+  let pending = new Uint8Array(0);
+  let position = start;
+
+  while (position + pending.length < end) {
+    const length = Math.min(chunkSize, end - position - pending.length);
+    const read = await file.read(buffer.subarray(0, length));
+
+    if (read === null) {
+      break;
+    }
+
+    const chunk = new Uint8Array(pending.length + read);
+    chunk.set(pending);
+    chunk.set(buffer.subarray(0, read), pending.length);
+
+    let lineStart = 0;
+
+    for (
+      let index = chunk.indexOf(newline);
+      index !== -1;
+      index = chunk.indexOf(newline, lineStart)
+    ) {
+      yield { line: decoder.decode(chunk.subarray(lineStart, index)), end: position + index + 1 };
+      lineStart = index + 1;
+    }
+
+    position += lineStart;
+    pending = chunk.slice(lineStart);
+  }
+}
+
+function parseLine(line: string) {
+  try {
+    const update: unknown = JSON.parse(line);
+
+    if (!isUpdate(update)) {
+      throw new Error("Not an update");
+    }
+
+    return update;
+  } catch (error) {
+    Log.warn(`Skipping malformed log line: ${error.message}`, { line });
+
+    return undefined;
+  }
+}
+
+function isUpdateEvent(
+  event: EventMap[keyof EventMap],
+): event is MessageEvent<Update> {
+  return event.type === "update";
+}
+
+const segmentPattern = /^(\d+)\.ndjson$/;
+
+const chunkSize = 65_536;
+
+const newline = 0x0a;
+
+const encoder = new TextEncoder();
+
+const decoder = new TextDecoder();
+
+const defaultSegmentSize = 16_777_216;
+
+const defaultSegmentAge = 86_400_000;
+
+const defaultIndexSize = 100_000;
+
+const options = z.object({
+  segmentSize: sizeOption(
+    "Size of a segment before starting a new one, such as 16m. Defaults to 16m.",
+  )
+    .default("16m"),
+  segmentAge: durationOption(
+    "Age of a segment before starting a new one, such as 1h. Defaults to 1d.",
+  )
+    .default("1d"),
+  maxSize: sizeOption("Maximum size of all segments to keep, such as 1g.").optional(),
+  maxAge: durationOption("Maximum age of segments to keep, such as 24h or 7d.").optional(),
+  indexSize: z.coerce
+    .number({
+      description:
+        "Maximum number of update IDs to index for resuming history. Defaults to 100000.",
+    })
+    .int()
+    .positive()
+    .default(defaultIndexSize),
+}).strict();
+
+type FileTransportOptions = z.output<typeof options>;
+
+/**
+ * A segment of the log.
+ */
+type Segment = {
+  number: number;
+  size: number;
+  createdAt: number;
+  modifiedAt: number;
+};
+
+/**
+ * Position right after an update in the log.
+ */
+type Position = {
+  segment: number;
+  offset: number;
+};
@@ -0,0 +1,177 @@
+import { assertEquals, assertRejects, assertThrows } from "@std/assert";
+import { join, toFileUrl } from "@std/path";
+import { ZodError } from "zod";
+import { earliestEventId } from "../hub.ts";
+import { createUpdate } from "../test_utilities.ts";
+import { testTransportConformance } from "./_conformance.ts";
+import { FileTransport } from "./file.ts";
+import { connectTransport, parseTransportOptions, UnknownEventIdError } from "./mod.ts";
+
+testTransportConformance("File", {
+  createCluster() {
+    const path = Deno.makeTempDirSync({ prefix: "mercure_test_" });
+
+    return {
+      uri: toFileUrl(path),
+      create: () => new FileTransport(),
+      dispose: () => Deno.remove(path, { recursive: true }),
+    };
+  },
+  shared: false,
+  indexing: true,
+});
+
+Deno.test("File transport history replay", async (ctx) => {
+  await ctx.step("Skip partially written and malformed lines", async () => {
+    await using log = await createLog();
+    await log.seed("first");
+    const [segment] = await log.segments();
+    await Deno.writeTextFile(join(log.path, segment), "not json\n", { append: true });
+    await Deno.writeTextFile(join(log.path, segment), '{"id":"invalid"}\n', { append: true });
+    await Deno.writeTextFile(join(log.path, segment), '{"id":"partial"', { append: true });
+    await log.seed("second");
+    const transport = await log.connect();
+
+    const updates = await Array.fromAsync(transport.eventsAfter(earliestEventId));
+    await transport.close();
+
+    assertEquals(updates.map(({ id }) => id), ["first", "second"]);
+  });
+});
+
+Deno.test("File transport segments", async (ctx) => {
+  await ctx.step("Write updates as lines of JSON", async () => {
+    await using log = await createLog();
+    await log.seed("first", "second");
+    const [segment] = await log.segments();
+
+    const lines = (await Deno.readTextFile(join(log.path, segment))).trimEnd().split("\n");
+
+    assertEquals(lines.map((line) => JSON.parse(line)), [
+      createUpdate("first"),
+      createUpdate("second"),
+    ]);
+  });
+
+  await ctx.step("Start a new segment on every connection", async () => {
+    await using log = await createLog();
+    await log.seed("first");
+    await log.seed("second");
+
+    assertEquals(await log.segments(), ["0000000001.ndjson", "0000000002.ndjson"]);
+  });
+
+  await ctx.step("Rotate segments exceeding the segment size", async () => {
+    await using log = await createLog();
+    await log.seed("first", "second", "third");
+    const transport = await log.connect("segmentSize=1");
+    transport.dispatchEvent(new MessageEvent("update", { data: createUpdate("fourth") }));
+    transport.dispatchEvent(new MessageEvent("update", { data: createUpdate("fifth") }));
+    await transport.close();
+
+    assertEquals((await log.segments()).length, 3);
+    assertEquals(
+      (await Array.fromAsync(transport.eventsAfter("second"))).map(({ id }) => id),
+      ["third", "fourth", "fifth"],
+    );
+  });
+
+  await ctx.step("Delete old segments exceeding the maximum size", async () => {
+    await using log = await createLog();
+    await log.seed("first");
+    await log.seed("second");
+    await log.seed("third");
+    const transport = await log.connect("maxSize=1");
+
+    const updates = await Array.fromAsync(transport.eventsAfter(earliestEventId));
+    await assertRejects(() => Array.fromAsync(transport.eventsAfter("first")), UnknownEventIdError);
+    await transport.close();
+
+    assertEquals(await log.segments(), ["0000000003.ndjson"]);
+    assertEquals(updates.map(({ id }) => id), ["third"]);
+  });
+
+  await ctx.step("Delete old segments exceeding the maximum age", async () => {
+    await using log = await createLog();
+    await log.seed("first");
+    await log.seed("second");
+    const [oldest] = await log.segments();
+    await Deno.utime(join(log.path, oldest), 0, 0);
+    const transport = await log.connect("maxAge=1h");
+
+    const updates = await Array.fromAsync(transport.eventsAfter(earliestEventId));
+    await transport.close();
+
+    assertEquals(await log.segments(), ["0000000002.ndjson"]);
+    assertEquals(updates.map(({ id }) => id), ["second"]);
+  });
+});
+
+Deno.test("File transport options", async (ctx) => {
+  const transport = new FileTransport();
+  const parse = (query: string) =>
+    parseTransportOptions(transport, new URL(`file:///var/lib/mercure/log?${query}`));
+
+  await ctx.step("Apply defaults", () => {
+    assertEquals(parse(""), {
+      segmentSize: 16_777_216,
+      segmentAge: 86_400_000,
+      indexSize: 100_000,
+    });
+  });
+
+  await ctx.step("Parse sizes and ages", () => {
+    assertEquals(parse("segmentSize=512k&maxSize=1G&maxAge=7d"), {
+      segmentSize: 524_288,
+      segmentAge: 86_400_000,
+      maxSize: 1_073_741_824,
+      maxAge: 604_800_000,
+      indexSize: 100_000,
+    });
+  });
+
+  await ctx.step("Reject invalid options", () => {
+    assertThrows(() => parse("maxSize=1t"), ZodError, "maxSize");
+    assertThrows(() => parse("size=100"), ZodError, "size");
+    assertThrows(() => parse("indexSize=0"), ZodError, "indexSize");
+  });
+});
+
+/**
+ * Create a scratch log directory for a single test, removed on disposal.
+ */
+async function createLog() {
+  const path = await Deno.makeTempDir({ prefix: "mercure_test_" });
+  const uri = toFileUrl(path);
+
+  return {
+    path,
+
+    async connect(query = "") {
+      return await connectTransport(new FileTransport(), new URL(`${uri.href}?${query}`));
+    },
+
+    /**
+     * Append updates to the log, the same way a previous hub instance would.
+     */
+    async seed(...ids: string[]) {
+      const transport = await this.connect();
+
+      for (const id of ids) {
+        transport.dispatchEvent(new MessageEvent("update", { data: createUpdate(id) }));
+      }
+
+      await transport.close();
+    },
+
+    async segments() {
+      const names = await Array.fromAsync(Deno.readDir(path), ({ name }) => name);
+
+      return names.sort();
+    },
+
+    async [Symbol.asyncDispose]() {
+      await Deno.remove(path, { recursive: true });
+    },
+  };
+}
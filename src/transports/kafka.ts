@@ -0,0 +1,569 @@
+import * as Log from "@std/log";
+import {
+  type Admin,
+  type Consumer,
+  Kafka,
+  type KafkaMessage,
+  type LogEntry,
+  logLevel,
+  type Producer,
+} from "kafkajs";
+import { z } from "zod";
+import { earliestEventId } from "../hub.ts";
+import { generateId, type Update } from "../updates.ts";
+import { UnknownEventIdError } from "./_errors.ts";
+import { durationOption, type EventMap, type MessageEventListener, type Transport } from "./mod.ts";
+import { PublishQueue, UpdateIndex } from "./supervisor.ts";
+
+/**
+ * Time to wait for the next message while replaying history, in milliseconds.
+ * Offsets may be missing from a range, for example if they have been removed
+ * by the retention policy meanwhile, so a replay ends once it passes.
+ */
+const replayIdleTimeout = 10_000;
+
+/**
+ * A transport type that distributes events via Apache Kafka.
+ *
+ * Updates are produced to the update topic, keyed by their canonical topic, so
+ * the order of updates to the same topic is preserved across partitions.
+ * Lifecycle events are produced to a separate, compacted topic, keyed by the
+ * subscription or subscriber they refer to, so it only retains their latest
+ * state.
+ *
+ * Every hub node consumes both topics using its own consumer group, so each of
+ * them receives all events. Consumers never commit offsets, and their groups
+ * are deleted once they are done, so neither nodes nor replays leave groups
+ * behind. While consuming the update topic, the transport maintains an index
+ * from the latest update IDs to partition offsets, which allows to seek
+ * straight to the right position when replaying history. To build the index,
+ * the update topic is read from the beginning when connecting; the connection
+ * is only established once the index has caught up.
+ *
+ * Topics are created automatically, unless they exist already, in which case
+ * their settings are left untouched.
+ */
+export class KafkaTransport implements Transport<"kafka:", KafkaTransportOptions> {
+  public readonly protocol = "kafka:";
+  public readonly options = options;
+
+  /**
+   * Unique identifier of this hub node.
+   */
+  public readonly nodeId: string;
+
+  #_kafka: Kafka | undefined;
+  #_admin: Admin | undefined;
+  #_producer: Producer | undefined;
+  #_consumer: Consumer | undefined;
+  #target = new EventTarget();
+  #producing = new PublishQueue();
+  #index = new UpdateIndex<Position>(defaultIndexSize);
+  #watermarks = new Map<number, bigint>();
+  #topic = "mercure-updates";
+  #lifecycleTopic = "mercure-lifecycle";
+  #clientId = "mercure";
+  #maxAge = Infinity;
+
+  /**
+   * Create a new Kafka transport.
+   *
+   * @param nodeId Unique identifier of this hub node
+   */
+  constructor(nodeId: string = generateId()) {
+    this.nodeId = nodeId;
+  }
+
+  async connect(
+    uri: URL,
+    _enableSubscriptionEvents: boolean,
+    {
+      topic,
+      lifecycleTopic,
+      clientId,
+      brokers = [],
+      partitions,
+      maxAge = Infinity,
+      indexSize,
+    }: KafkaTransportOptions,
+  ) {
+    this.#topic = topic;
+    this.#lifecycleTopic = lifecycleTopic;
+    this.#clientId = clientId;
+    this.#maxAge = maxAge;
+    this.#index = new UpdateIndex(indexSize, maxAge);
+    this.#_kafka = new Kafka({
+      clientId,
+      brokers: [uri.host, ...brokers],
+      logLevel: logLevel.WARN,
+      logCreator,
+    });
+
+    this.#_admin = this.#kafka.admin();
+    await this.#admin.connect();
+    await this.#createTopics(partitions);
+
+    this.#_producer = this.#kafka.producer();
+    await this.#producer.connect();
+
+    // Every node uses its own consumer group, so all of them receive every
+    // event, instead of sharing the partitions among each other.
+    this.#_consumer = this.#kafka.consumer({ groupId: this.#groupId });
+    await this.#consumer.connect();
+    await this.#consumer.subscribe({ topic: this.#topic, fromBeginning: true });
+    await this.#consumer.subscribe({ topic: this.#lifecycleTopic, fromBeginning: false });
+
+    const { promise: caughtUp, resolve } = Promise.withResolvers<void>();
+    const checkProgress = () => this.#watermarks.size === 0 && resolve();
+
+    checkProgress();
+
+    await this.#consumer.run({
+      autoCommit: false,
+      eachMessage: ({ topic, partition, message }) => {
+        this.#receive(topic, partition, message);
+        checkProgress();
+
+        return Promise.resolve();
+      },
+    });
+
+    await caughtUp;
+  }
+
+  async close() {
+    await this.#consumer.disconnect();
+    await this.#producing.settled();
+    await this.#producer.disconnect();
+    await this.#deleteGroup(this.#groupId);
+    await this.#admin.disconnect();
+  }
+
+  /**
+   * Replay all updates after the given event ID.
+   *
+   * The position of the update in its partition is resolved from the index;
+   * as there is no order across partitions, the other partitions are read from
+   * the first message produced at the same time or later. To read the history,
+   * a short-lived consumer seeks to these positions, and reads up to the end
+   * of each partition as of the start of the replay.
+   * Updates are yielded in order per partition, and thereby per topic.
+   * If the update ID is unknown, for example because it has been removed from
+   * the topic by the retention policy, an {@link UnknownEventIdError} is
+   * thrown.
+   *
+   * @param lastEventId ID of the last update received by the client
+   */
+  async *eventsAfter(lastEventId = earliestEventId) {
+    const ranges = await this.#resolveRanges(lastEventId);
+
+    if (ranges.size > 0) {
+      yield* this.#read(ranges);
+    }
+  }
+
+  removeEventListener<K extends keyof EventMap>(
+    type: K,
+    listener: MessageEventListener<EventMap[K]>,
+  ) {
+    this.#target.removeEventListener(type, listener as EventListener);
+  }
+
+  addEventListener<K extends keyof EventMap>(
+    type: K,
+    listener: MessageEventListener<EventMap[K]>,
+    options?: AddEventListenerOptions,
+  ) {
+    this.#target.addEventListener(type, listener as EventListener, options);
+  }
+
+  dispatchEvent<K extends keyof EventMap>(event: EventMap[K]) {
+    this.#producing.push(() => this.#produce(event));
+
+    return this.#target.dispatchEvent(event);
+  }
+
+  /**
+   * Publish an update, and resolve once the brokers acknowledged it.
+   *
+   * @param update Update to publish
+   * @param signal Signal to abort waiting for the acknowledgement
+   */
+  async publish(update: Update, signal?: AbortSignal) {
+    const event = new MessageEvent("update", { data: update });
+
+    await this.#producing.run(() => this.#produce(event), signal);
+    this.#target.dispatchEvent(event);
+  }
+
+  get #kafka() {
+    if (!this.#_kafka) {
+      throw new Error(
+        "Unexpected state: Not connected. A connection should have " +
+          "been established before attempting to use it.",
+      );
+    }
+
+    return this.#_kafka;
+  }
+
+  get #admin() {
+    if (!this.#_admin) {
+      throw new Error(
+        "Unexpected state: Not connected. An admin client should have " +
+          "been connected before attempting to use it.",
+      );
+    }
+
+    return this.#_admin;
+  }
+
+  get #producer() {
+    if (!this.#_producer) {
+      throw new Error(
+        "Unexpected state: Not connected. A producer should have " +
+          "been connected before attempting to use it.",
+      );
+    }
+
+    return this.#_producer;
+  }
+
+  get #consumer() {
+    if (!this.#_consumer) {
+      throw new Error(
+        "Unexpected state: Not subscribed. A consumer should have " +
+          "been connected before attempting to use it.",
+      );
+    }
+
+    return this.#_consumer;
+  }
+
+  get #groupId() {
+    return `${this.#clientId}-${this.nodeId}`;
+  }
+
+  /**
+   * Create the update and lifecycle topics, unless they exist already, and
+   * record the end of the update topic partitions. Everything before these
+   * offsets is history, which is indexed, but not delivered.
+   *
+   * @param partitions Number of partitions of the update topic
+   */
+  async #createTopics(partitions: number) {
+    await this.#admin.createTopics({
+      waitForLeaders: true,
+      topics: [
+        {
+          topic: this.#topic,
+          numPartitions: partitions,
+          configEntries: Number.isFinite(this.#maxAge)
+            ? [{ name: "retention.ms", value: this.#maxAge.toString() }]
+            : [],
+        },
+        {
+          topic: this.#lifecycleTopic,
+          numPartitions: 1,
+          configEntries: [{ name: "cleanup.policy", value: "compact" }],
+        },
+      ],
+    });
+
+    for (const { partition, high, low } of await this.#admin.fetchTopicOffsets(this.#topic)) {
+      if (BigInt(high) > BigInt(low)) {
+        this.#watermarks.set(partition, BigInt(high));
+      }
+    }
+  }
+
+  /**
+   * Delete a consumer group once all of its members have left. Failures are
+   * not fatal, as groups without committed offsets expire on their own.
+   *
+   * @param groupId ID of the consumer group to delete
+   */
+  async #deleteGroup(groupId: string) {
+    try {
+      await this.#admin.deleteGroups([groupId]);
+    } catch (error) {
+      Log.debug(`Deleting consumer group "${groupId}" failed: ${error.message}`, { error });
+    }
+  }
+
+  async #produce(event: EventMap[keyof EventMap]) {
+    const update = isUpdateEvent(event);
+    const payload = update ? event.data : event.detail;
+
+    await this.#producer.send({
+      topic: update ? this.#topic : this.#lifecycleTopic,
+      messages: [{
+        key: update ? event.data.canonicalTopic : lifecycleKey(event.detail),
+        value: JSON.stringify(payload),
+        headers: {
+          type: event.type,
+          node: this.nodeId,
+          ...(update ? { id: event.data.id } : {}),
+        },
+      }],
+    });
+  }
+
+  /**
+   * Handle a message consumed from one of the topics.
+   *
+   * @param topic Topic the message was consumed from
+   * @param partition Partition the message was consumed from
+   * @param message Message to handle
+   */
+  #receive(topic: string, partition: number, message: KafkaMessage) {
+    const type = header(message, "type");
+    const node = header(message, "node");
+
+    if (topic === this.#topic) {
+      const id = header(message, "id");
+
+      if (id) {
+        const timestamp = +message.timestamp;
+        this.#index.set(id, { partition, offset: message.offset, timestamp }, timestamp);
+      }
+
+      // Messages produced before connecting are history; we only need to
+      // index them, but must not deliver them to any listeners.
+      const watermark = this.#watermarks.get(partition);
+      const offset = BigInt(message.offset);
+
+      if (typeof watermark !== "undefined") {
+        if (offset + 1n >= watermark) {
+          this.#watermarks.delete(partition);
+        }
+
+        if (offset < watermark) {
+          return;
+        }
+      }
+    }
+
+    // Events dispatched by this node have been delivered locally already
+    if (node === this.nodeId || !type || !message.value) {
+      return;
+    }
+
+    const data = JSON.parse(message.value.toString());
+    const event = type === "update"
+      ? new MessageEvent(type, { data })
+      : new CustomEvent(type, { detail: data });
+
+    this.#target.dispatchEvent(event);
+  }
+
+  /**
+   * Resolve the offset ranges to read when replaying updates after the given
+   * event ID. Partitions without any updates to replay are omitted.
+   *
+   * @param lastEventId ID of the last update received by the client
+   */
+  async #resolveRanges(lastEventId: string) {
+    const ranges = new Map<number, Range>();
+    const position = lastEventId === earliestEventId ? undefined : this.#index.get(lastEventId);
+
+    if (lastEventId !== earliestEventId && !position) {
+      throw new UnknownEventIdError(lastEventId);
+    }
+
+    const offsets = await this.#admin.fetchTopicOffsets(this.#topic);
+    const starts = new Map(
+      position
+        ? (await this.#admin.fetchTopicOffsetsByTimestamp(this.#topic, position.timestamp))
+          .map(({ partition, offset }) => [partition, BigInt(offset)])
+        : offsets.map(({ partition, low }) => [partition, BigInt(low)]),
+    );
+
+    if (position) {
+      starts.set(position.partition, BigInt(position.offset) + 1n);
+    }
+
+    for (const { partition, low, high } of offsets) {
+      const start = starts.get(partition) ?? BigInt(low);
+      const end = BigInt(high);
+
+      if (start < end) {
+        ranges.set(partition, { start: start > BigInt(low) ? start : BigInt(low), end });
+      }
+    }
+
+    return ranges;
+  }
+
+  /**
+   * Read the given offset ranges of the update topic.
+   *
+   * The Kafka client only consumes as a member of a group, so every replay
+   * uses a short-lived group of its own, which is deleted afterwards. If no
+   * message arrives for a while before the end of the ranges, the replay ends
+   * early.
+   *
+   * @param ranges Offset ranges to read, by partition
+   */
+  async *#read(ranges: Map<number, Range>) {
+    const groupId = `${this.#clientId}-replay-${generateId()}`;
+    const consumer = this.#kafka.consumer({ groupId });
+    const pending = new Set(ranges.keys());
+    let controller: ReadableStreamDefaultController<Update>;
+    const updates = new ReadableStream<Update>({
+      start: (streamController) => void (controller = streamController),
+    });
+    let timer: number | undefined;
+    const wait = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        Log.warn(`Replay timed out, ${pending.size} partitions have not been read completely`);
+        pending.clear();
+        controller.close();
+      }, replayIdleTimeout);
+    };
+    const consume = (partition: number, message: KafkaMessage) => {
+      const range = ranges.get(partition);
+      const offset = BigInt(message.offset);
+
+      // Ignore messages read before seeking, or after the end of the range
+      if (!range || offset < range.start || !pending.has(partition)) {
+        return;
+      }
+
+      if (message.value) {
+        controller.enqueue(JSON.parse(message.value.toString()));
+      }
+
+      if (offset + 1n >= range.end) {
+        pending.delete(partition);
+
+        if (pending.size === 0) {
+          clearTimeout(timer);
+          return controller.close();
+        }
+      }
+
+      wait();
+    };
+
+    await consumer.connect();
+
+    try {
+      await consumer.subscribe({ topic: this.#topic, fromBeginning: true });
+      await consumer.run({
+        autoCommit: false,
+        eachMessage: ({ partition, message }) => Promise.resolve(consume(partition, message)),
+      });
+
+      for (const [partition, { start }] of ranges) {
+        consumer.seek({ topic: this.#topic, partition, offset: start.toString() });
+      }
+
+      wait();
+      yield* updates;
+    } finally {
+      clearTimeout(timer);
+      await consumer.disconnect();
+      await this.#deleteGroup(groupId);
+    }
+  }
+}
+
+/**
+ * Resolve the key of a lifecycle event. As the lifecycle topic is compacted,
+ * only the latest event for every subscription or subscriber is retained.
+ *
+ * @param detail Detail of the lifecycle event
+ */
+function lifecycleKey(detail: Record<string, unknown>) {
+  const { subscription, subscriber } = detail as {
+    subscription?: { id?: string };
+    subscriber?: { id?: string };
+  };
+
+  return subscription?.id ?? subscriber?.id ?? generateId();
+}
+
+function header(message: KafkaMessage, name: string) {
+  const value = message.headers?.[name];
+
+  return value === undefined ? undefined : value.toString();
+}
+
+/**
+ * Forward log entries of the Kafka client to our logger.
+ */
+const logCreator = () => ({ level, log }: LogEntry) => {
+  const message = `Kafka: ${log.message}`;
+
+  level === logLevel.ERROR
+    ? Log.error(message, log)
+    : level === logLevel.WARN
+    ? Log.warn(message, log)
+    : Log.debug(message, log);
+};
+
+const topicName = /^[a-zA-Z0-9._-]+$/;
+
+const defaultIndexSize = 100_000;
+
+const options = z.object({
+  topic: z
+    .string({ description: "Name of the topic to produce updates to." })
+    .regex(topicName, "Must be a valid topic name")
+    .default("mercure-updates"),
+  lifecycleTopic: z
+    .string({ description: "Name of the compacted topic to produce lifecycle events to." })
+    .regex(topicName, "Must be a valid topic name")
+    .default("mercure-lifecycle"),
+  clientId: z
+    .string({ description: "Client ID, also used as the prefix of consumer group IDs." })
+    .default("mercure"),
+  brokers: z
+    .string({ description: "Comma-separated list of additional brokers to connect to." })
+    .transform((value) => value.split(",").map((broker) => broker.trim()).filter(Boolean))
+    .optional(),
+  partitions: z.coerce
+    .number({ description: "Number of partitions when creating the update topic." })
+    .int()
+    .positive()
+    .default(1),
+  maxAge: durationOption(
+    "Maximum age of updates to keep when creating the update topic, such as 24h.",
+  ).optional(),
+  indexSize: z.coerce
+    .number({
+      description:
+        "Maximum number of update IDs to index for resuming history. Defaults to 100000.",
+    })
+    .int()
+    .positive()
+    .default(defaultIndexSize),
+}).strict();
+
+type KafkaTransportOptions = z.output<typeof options>;
+
+type Position = {
+  partition: number;
+  offset: string;
+  timestamp: number;
+};
+
+type Range = {
+  /**
+   * First offset to read, inclusive.
+   */
+  start: bigint;
+
+  /**
+   * Last offset to read, exclusive.
+   */
+  end: bigint;
+};
+
+function isUpdateEvent(
+  event: EventMap[keyof EventMap],
+): event is MessageEvent<Update> {
+  return event.type === "update";
+}
@@ -0,0 +1,66 @@
+import { assertEquals } from "@std/assert";
+import { testTransportConformance } from "./_conformance.ts";
+import { KafkaTransport } from "./kafka.ts";
+import { parseTransportOptions } from "./mod.ts";
+
+/**
+ * Broker to run the tests against, as `host:port`. Any Kafka-compatible
+ * single-node broker will do, for example one started with
+ * `docker compose up kafka`, using `localhost:9092`. The tests create their
+ * own topics.
+ */
+const broker = Deno.env.get("MERCURE_TEST_KAFKA_BROKER");
+
+testTransportConformance("Kafka", {
+  createCluster: () => ({ uri: createClusterUri(), create: () => new KafkaTransport() }),
+  shared: true,
+  indexing: true,
+  parsing: {
+    transport: new KafkaTransport(),
+    uri: new URL("kafka://localhost:9092"),
+    defaults: {
+      topic: "mercure-updates",
+      lifecycleTopic: "mercure-lifecycle",
+      clientId: "mercure",
+      partitions: 1,
+      indexSize: 100_000,
+    },
+    invalid: {
+      "topic=foo bar": "topic",
+      "partitions=0": "partitions",
+      "indexSize=0": "indexSize",
+      "retention=1h": "retention",
+    },
+  },
+  timeout: 10_000,
+  // The Kafka client keeps timers around for a while after disconnecting
+  sanitize: false,
+  ignore: !broker,
+});
+
+Deno.test("Kafka transport options", async (ctx) => {
+  const transport = new KafkaTransport();
+  const parse = (query: string) =>
+    parseTransportOptions(transport, new URL(`kafka://localhost:9092?${query}`));
+
+  await ctx.step("Parse additional brokers", () => {
+    assertEquals(parse("brokers=a:9092, b:9092").brokers, ["a:9092", "b:9092"]);
+  });
+
+  await ctx.step("Parse the maximum age", () => {
+    assertEquals(parse("maxAge=7d").maxAge, 604_800_000);
+  });
+});
+
+/**
+ * Create the URI of a set of scratch topics for a single test.
+ */
+function createClusterUri() {
+  const suffix = crypto.randomUUID().slice(0, 8);
+  const uri = new URL(`kafka://${broker}`);
+
+  uri.searchParams.set("topic", `mercure-test-${suffix}`);
+  uri.searchParams.set("lifecycleTopic", `mercure-test-lifecycle-${suffix}`);
+
+  return uri;
+}
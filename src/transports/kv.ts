@@ -0,0 +1,359 @@
+import * as Log from "@std/log";
+import { z } from "zod";
+import { earliestEventId } from "../hub.ts";
+import { generateId, type Update } from "../updates.ts";
+import { UnknownEventIdError } from "./_errors.ts";
+import { durationOption, type EventMap, type MessageEventListener, type Transport } from "./mod.ts";
+import { backoffDelay, PublishQueue } from "./supervisor.ts";
+
+/**
+ * Maximum number of attempts to store an event, if other instances keep
+ * storing events at the same time.
+ */
+const maxStoreAttempts = 10;
+
+/**
+ * Delays between attempts to store an event, in milliseconds.
+ */
+const storeRetryDelay = { min: 5, max: 500 };
+
+/**
+ * A transport type that stores events in a Deno KV database.
+ *
+ * This transport provides durable history without any external service: The
+ * database path is taken from the transport URI, for example
+ * `kv:///var/lib/mercure/hub.db`; `kv::memory:` opens a volatile in-memory
+ * database, and `kv:` the default database of the process.
+ *
+ * Updates are stored under keys ordered by the time they were stored, so
+ * history can be replayed using a range scan. An additional key maps every
+ * update ID to the key of the update. Lifecycle events are stored separately,
+ * and only kept briefly. Other transport instances sharing the database are
+ * notified about new events by watching a key pointing to the latest event of
+ * either kind; upon changes, they scan for all events they haven't seen yet.
+ * Expiration uses the built-in `expireIn` option of Deno KV.
+ */
+export class KvTransport implements Transport<"kv:", KvTransportOptions> {
+  public readonly protocol = "kv:";
+  public readonly options = options;
+
+  /**
+   * Unique identifier of this hub node.
+   */
+  public readonly nodeId: string;
+
+  #_kv: Deno.Kv | undefined;
+  #listening = Promise.resolve();
+  #target = new EventTarget();
+  #writing = new PublishQueue();
+  #prefix = "mercure";
+  #maxAge: number | undefined;
+  #lifecycleMaxAge = 60_000;
+
+  /**
+   * Create a new Deno KV transport.
+   *
+   * @param nodeId Unique identifier of this hub node
+   */
+  constructor(nodeId: string = generateId()) {
+    this.nodeId = nodeId;
+  }
+
+  async connect(
+    uri: URL,
+    _enableSubscriptionEvents: boolean,
+    { prefix, maxAge, lifecycleMaxAge }: KvTransportOptions,
+  ) {
+    this.#prefix = prefix;
+    this.#maxAge = maxAge;
+    this.#lifecycleMaxAge = lifecycleMaxAge;
+    this.#_kv = await Deno.openKv(uri.pathname || undefined);
+
+    // Only events dispatched after connecting must be delivered, so we
+    // start watching from the latest event of either kind.
+    const latestKeys = kinds.map((kind) => this.#key("latest", kind));
+    const latest = await this.#kv.getMany<EventKey[]>(latestKeys);
+
+    this.#listening = this.#listen(
+      this.#kv.watch<EventKey[]>(latestKeys),
+      latest.map(({ value }) => value ?? undefined),
+    );
+  }
+
+  async close() {
+    // Closing the database ends the watch stream, too
+    await this.#writing.settled();
+    this.#kv.close();
+    await this.#listening;
+  }
+
+  /**
+   * Replay all updates after the given event ID.
+   *
+   * To resume from an update ID, we look up the key of the update, and scan
+   * the updates starting right after that key.
+   * If the update ID is unknown, for example because it has expired already, an
+   * {@link UnknownEventIdError} is thrown. Deno KV removes expired keys
+   * eventually only, and not necessarily at the same time, so the update
+   * itself is checked to still exist, and a stale index entry is removed.
+   *
+   * @param lastEventId ID of the last update received by the client
+   */
+  async *eventsAfter(lastEventId = earliestEventId) {
+    let after: EventKey | undefined;
+
+    if (lastEventId !== earliestEventId) {
+      const index = await this.#kv.get<EventKey>(this.#key("ids", lastEventId));
+
+      if (!index.value) {
+        throw new UnknownEventIdError(lastEventId);
+      }
+
+      const update = await this.#kv.get(this.#key("update", ...index.value));
+
+      if (!update.value) {
+        await this.#kv.atomic().check(index).delete(index.key).commit();
+
+        throw new UnknownEventIdError(lastEventId);
+      }
+
+      after = index.value;
+    }
+
+    for await (const { value } of this.#scan("update", after)) {
+      yield value.payload as Update;
+    }
+  }
+
+  removeEventListener<K extends keyof EventMap>(
+    type: K,
+    listener: MessageEventListener<EventMap[K]>,
+  ) {
+    this.#target.removeEventListener(type, listener as EventListener);
+  }
+
+  addEventListener<K extends keyof EventMap>(
+    type: K,
+    listener: MessageEventListener<EventMap[K]>,
+    options?: AddEventListenerOptions,
+  ) {
+    this.#target.addEventListener(type, listener as EventListener, options);
+  }
+
+  dispatchEvent<K extends keyof EventMap>(event: EventMap[K]) {
+    this.#writing.push(() => this.#store(event));
+
+    return this.#target.dispatchEvent(event);
+  }
+
+  /**
+   * Publish an update, and resolve once it has been stored in the database.
+   *
+   * @param update Update to publish
+   * @param signal Signal to abort waiting for the update to be stored
+   */
+  async publish(update: Update, signal?: AbortSignal) {
+    const event = new MessageEvent("update", { data: update });
+
+    await this.#writing.run(() => this.#store(event), signal);
+    this.#target.dispatchEvent(event);
+  }
+
+  get #kv() {
+    if (!this.#_kv) {
+      throw new Error(
+        "Unexpected state: Not connected. A connection should have " +
+          "been established before attempting to use it.",
+      );
+    }
+
+    return this.#_kv;
+  }
+
+  /**
+   * Store an event, along with the pointer to the latest event of its kind,
+   * and the ID index entry of updates, all in a single atomic operation.
+   *
+   * The key of the event must follow the latest key of its kind, or other
+   * instances that have seen the latest event already would skip it. The
+   * operation checks that the latest key didn't change in the meantime, and
+   * is retried with a new key if another instance stored an event first, or
+   * is writing to a shared SQLite database right now. Attempts are spaced
+   * using an exponential backoff, and limited, so contention can't stall the
+   * write chain forever.
+   *
+   * @param event Event to store
+   * @throws {Error} If the event could not be stored within the attempts
+   */
+  async #store(event: EventMap[keyof EventMap]) {
+    const update = isUpdateEvent(event);
+    const kind: Kind = update ? "update" : "lifecycle";
+    const expireIn = update ? this.#maxAge : this.#lifecycleMaxAge;
+    const entry: StoredEvent = {
+      type: event.type,
+      node: this.nodeId,
+      payload: JSON.parse(JSON.stringify(update ? event.data : event.detail)),
+    };
+
+    for (let attempt = 0; attempt < maxStoreAttempts; attempt++) {
+      if (attempt > 0) {
+        const delay = backoffDelay(attempt - 1, storeRetryDelay.min, storeRetryDelay.max);
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+
+      const latest = await this.#kv.get<EventKey>(this.#key("latest", kind));
+      const key = nextKey(latest.value, this.nodeId);
+      const operation = this.#kv.atomic()
+        .check(latest)
+        .set(this.#key(kind, ...key), entry, { expireIn })
+        .set(this.#key("latest", kind), key);
+
+      if (update) {
+        operation.set(this.#key("ids", event.data.id), key, { expireIn });
+      }
+
+      try {
+        if ((await operation.commit()).ok) {
+          return;
+        }
+      } catch (error) {
+        if (!isLockedError(error)) {
+          throw error;
+        }
+      }
+    }
+
+    throw new Error(`Storing the event failed after ${maxStoreAttempts} attempts`);
+  }
+
+  /**
+   * Deliver events stored by other transport instances.
+   *
+   * The watch stream may coalesce multiple changes, so instead of relying on
+   * the latest event key, we scan for all events after the last one we've
+   * seen of the changed kind.
+   *
+   * @param watcher Stream of changes to the latest event keys
+   * @param seen Key of the last event seen, by kind
+   */
+  async #listen(
+    watcher: ReadableStream<Deno.KvEntryMaybe<EventKey>[]>,
+    seen: (EventKey | undefined)[],
+  ) {
+    try {
+      for await (const entries of watcher) {
+        for (const [index, kind] of kinds.entries()) {
+          const latest = entries[index].value;
+
+          if (!latest || (seen[index] && compareKeys(latest, seen[index]) <= 0)) {
+            continue;
+          }
+
+          for await (const { key, value } of this.#scan(kind, seen[index])) {
+            seen[index] = key.slice(-eventKeyLength) as EventKey;
+
+            // Events dispatched by this node have been delivered already
+            if (value.node !== this.nodeId) {
+              this.#target.dispatchEvent(
+                kind === "update"
+                  ? new MessageEvent(value.type, { data: value.payload })
+                  : new CustomEvent(value.type, { detail: value.payload }),
+              );
+            }
+          }
+        }
+      }
+    } catch (error) {
+      Log.error(`Watching for events failed: ${error.message}`, { error });
+    }
+  }
+
+  /**
+   * Scan the events of the given kind, optionally after the given key.
+   *
+   * @param kind Kind of events to scan
+   * @param after Key of the event to start after
+   */
+  async *#scan(kind: Kind, after?: EventKey) {
+    const prefix = this.#key(kind);
+    const entries = this.#kv.list<StoredEvent>(
+      after ? { prefix, start: [...prefix, ...after] } : { prefix },
+    );
+
+    for await (const entry of entries) {
+      if (after && compareKeys(entry.key.slice(-eventKeyLength) as EventKey, after) <= 0) {
+        continue;
+      }
+
+      yield entry;
+    }
+  }
+
+  #key(...parts: Deno.KvKeyPart[]) {
+    return [this.#prefix, ...parts];
+  }
+}
+
+/**
+ * Generate the key of the event following the latest one.
+ *
+ * Keys are made up of the current time, a sequence number to order events
+ * stored within the same millisecond, and the node ID to avoid collisions
+ * between nodes. This keeps them monotonic, even if the clock goes backwards.
+ *
+ * @param latest Key of the latest event, if any
+ * @param nodeId ID of the node storing the event
+ */
+function nextKey(latest: EventKey | null, nodeId: string): EventKey {
+  const now = Date.now();
+
+  if (!latest || now > latest[0]) {
+    return [now, 0, nodeId];
+  }
+
+  return [latest[0], latest[1] + 1, nodeId];
+}
+
+function compareKeys([a, b, c]: EventKey, [x, y, z]: EventKey) {
+  return a - x || b - y || (c < z ? -1 : c > z ? 1 : 0);
+}
+
+const kinds = ["update", "lifecycle"] as const;
+
+const eventKeyLength = 3;
+
+const options = z.object({
+  prefix: z
+    .string({ description: "Prefix of all keys, to share a database with other data." })
+    .min(1)
+    .default("mercure"),
+  maxAge: durationOption("Maximum age of updates to keep, such as 30m or 24h.").optional(),
+  lifecycleMaxAge: durationOption("Maximum age of lifecycle events to keep. Defaults to 1m.")
+    .default("1m"),
+}).strict();
+
+type KvTransportOptions = z.output<typeof options>;
+
+type Kind = typeof kinds[number];
+
+/**
+ * Key of an event: The time it was stored at, its sequence number within
+ * that millisecond, and the ID of the node that stored it.
+ */
+type EventKey = [timestamp: number, sequence: number, node: string];
+
+type StoredEvent = {
+  type: string;
+  node: string;
+  payload: unknown;
+};
+
+function isLockedError(error: unknown) {
+  return error instanceof Error && error.message.includes("database is locked");
+}
+
+function isUpdateEvent(
+  event: EventMap[keyof EventMap],
+): event is MessageEvent<Update> {
+  return event.type === "update";
+}
@@ -0,0 +1,137 @@
+import { assertEquals, assertRejects, assertThrows } from "@std/assert";
+import { ZodError } from "zod";
+import { earliestEventId } from "../hub.ts";
+import { createUpdate, delay } from "../test_utilities.ts";
+import type { Update } from "../updates.ts";
+import { testTransportConformance } from "./_conformance.ts";
+import { KvTransport } from "./kv.ts";
+import { connectTransport, parseTransportOptions, UnknownEventIdError } from "./mod.ts";
+
+testTransportConformance("Deno KV", {
+  createCluster() {
+    const path = Deno.makeTempFileSync({ prefix: "mercure_test_", suffix: ".db" });
+
+    return {
+      uri: new URL(`kv://${path}`),
+      create: () => new KvTransport(),
+      dispose: () => Deno.remove(path),
+    };
+  },
+  shared: true,
+});
+
+Deno.test("Deno KV transport history replay", async (ctx) => {
+  await ctx.step("Keep updates of other prefixes apart", async () => {
+    await using database = await createDatabase();
+    await database.seed("first");
+    const transport = await database.connect("prefix=other");
+
+    const updates = await Array.fromAsync(transport.eventsAfter(earliestEventId));
+    await transport.close();
+
+    assertEquals(updates, []);
+  });
+
+  await ctx.step("Remove index entries of updates that are gone", async () => {
+    await using database = await createDatabase();
+    await database.seed("first", "second");
+    const kv = await Deno.openKv(database.path);
+    const [first] = await Array.fromAsync(kv.list({ prefix: ["mercure", "update"] }));
+    await kv.delete(first.key);
+    const transport = await database.connect();
+
+    await assertRejects(
+      () => Array.fromAsync(transport.eventsAfter("first")),
+      UnknownEventIdError,
+    );
+    const index = await kv.get(["mercure", "ids", "first"]);
+    await transport.close();
+    kv.close();
+
+    assertEquals(index.value, null);
+  });
+
+  await ctx.step("Keep storing updates after a failed write", async () => {
+    await using database = await createDatabase();
+    const transport = await database.connect();
+
+    // BigInts can't be serialized, so storing this update fails
+    const broken = { ...createUpdate("broken"), data: 1n as unknown as string };
+    transport.dispatchEvent(new MessageEvent("update", { data: broken }));
+    transport.dispatchEvent(new MessageEvent("update", { data: createUpdate("first") }));
+    await transport.close();
+
+    const reconnected = await database.connect();
+    const updates = await Array.fromAsync(reconnected.eventsAfter(earliestEventId));
+    await reconnected.close();
+
+    assertEquals(updates.map(({ id }) => id), ["first"]);
+  });
+});
+
+Deno.test("Deno KV transport clustering", async (ctx) => {
+  await ctx.step("Do not deliver history to new instances", async () => {
+    await using database = await createDatabase();
+    await database.seed("first");
+    const transport = await database.connect();
+    const received: Update[] = [];
+    transport.addEventListener("update", ({ data }) => received.push(data));
+
+    await delay(50);
+    await transport.close();
+
+    assertEquals(received, []);
+  });
+});
+
+Deno.test("Deno KV transport options", async (ctx) => {
+  const transport = new KvTransport();
+  const parse = (query: string) =>
+    parseTransportOptions(transport, new URL(`kv:///var/lib/mercure/hub.db?${query}`));
+
+  await ctx.step("Apply defaults", () => {
+    assertEquals(parse(""), { prefix: "mercure", lifecycleMaxAge: 60_000 });
+  });
+
+  await ctx.step("Parse the maximum age", () => {
+    assertEquals(parse("maxAge=24h").maxAge, 86_400_000);
+  });
+
+  await ctx.step("Reject invalid options", () => {
+    assertThrows(() => parse("prefix="), ZodError, "prefix");
+    assertThrows(() => parse("maxlen=100"), ZodError, "maxlen");
+  });
+});
+
+/**
+ * Create a scratch database file for a single test, removed on disposal.
+ */
+async function createDatabase() {
+  const path = await Deno.makeTempFile({ prefix: "mercure_test_", suffix: ".db" });
+  const uri = new URL(`kv://${path}`);
+
+  return {
+    path,
+
+    async connect(query = "") {
+      return await connectTransport(new KvTransport(), new URL(`${uri.href}?${query}`));
+    },
+
+    /**
+     * Store updates, the same way another hub instance would.
+     */
+    async seed(...ids: string[]) {
+      const transport = await this.connect();
+
+      for (const id of ids) {
+        transport.dispatchEvent(new MessageEvent("update", { data: createUpdate(id) }));
+      }
+
+      await transport.close();
+    },
+
+    async [Symbol.asyncDispose]() {
+      await Deno.remove(path);
+    },
+  };
+}
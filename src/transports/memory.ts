@@ -1,19 +1,37 @@
+import * as Log from "@std/log";
+import { z } from "zod";
 import { earliestEventId } from "../hub.ts";
-import type { Update } from "../updates.ts";
-import type { EventMap, MessageEventListener, Transport } from "./mod.ts";
+import { isUpdate, type Update } from "../updates.ts";
+import { UnknownEventIdError } from "./_errors.ts";
+import { durationOption, type EventMap, type MessageEventListener, type Transport } from "./mod.ts";
 
 /**
  * A transport type that stores updates in memory.
  *
  * This transport is useful for testing and development purposes, as it does not
- * persist any data. It is also limited to a single instance, so it is not
- * suitable for production use.
+ * persist any data, unless snapshots are enabled. It is also limited to a
+ * single instance, so it is not suitable for production use.
+ *
+ * The number of updates to store may be set using the `size` parameter of the
+ * transport URI, for example: `memory:?size=5000`.
+ *
+ * To keep the history across restarts of a single hub instance, the `snapshot`
+ * parameter may be set to a file path. The history is written to the file as
+ * NDJSON periodically and when closing the transport, and loaded again when
+ * connecting. Snapshots are replaced atomically, so a crash while writing one
+ * leaves the previous snapshot intact; updates dispatched after the last
+ * snapshot are lost, though.
  */
-export class MemoryTransport implements Transport {
+export class MemoryTransport implements Transport<"memory:", MemoryTransportOptions> {
   public readonly protocol = "memory:";
+  public readonly options = options;
 
   readonly #target = new EventTarget();
-  readonly #store = new RingBuffer<Update>();
+  readonly #store = new RingBuffer<Update>(({ id }) => id);
+  #snapshotPath: string | undefined;
+  #snapshotTimer: number | undefined;
+  #snapshotting: Promise<void> | undefined;
+  #changed = false;
 
   /**
    * Create a new memory transport.
@@ -26,23 +44,107 @@ export class MemoryTransport implements Transport {
     }
   }
 
+  /**
+   * Replay all updates after the given event ID.
+   *
+   * The store keeps an index of event IDs, so finding the position to replay
+   * from takes constant time, regardless of the size of the history.
+   *
+   * @param lastEventId ID of the last update received by the client
+   * @throws {UnknownEventIdError} If the event ID is not in the history
+   */
   public async *eventsAfter(lastEventId = earliestEventId) {
-    let next = lastEventId === earliestEventId;
+    if (lastEventId === earliestEventId) {
+      yield* [...this.#store];
 
-    for (const update of this.#store) {
-      if (next) {
-        yield update;
-      }
+      return;
+    }
 
-      if (update.id === lastEventId) {
-        next = true;
-      }
+    const sequence = this.#store.sequenceOf(lastEventId);
+
+    if (sequence === undefined) {
+      throw new UnknownEventIdError(lastEventId);
+    }
+
+    yield* this.#store.slice(sequence + 1);
+  }
+
+  public async connect(
+    _uri: URL,
+    _enableSubscriptionEvents: boolean,
+    { size, snapshot, snapshotInterval }: MemoryTransportOptions,
+  ) {
+    if (size) {
+      this.#store.limit = size;
+    }
+
+    if (snapshot) {
+      this.#snapshotPath = snapshot;
+      await this.#restore(snapshot);
+      this.#snapshotTimer = setInterval(() => void this.snapshot(), snapshotInterval);
     }
   }
 
-  public connect(_uri: URL, _enableSubscriptionEvents: boolean) {}
+  public async close() {
+    clearInterval(this.#snapshotTimer);
+    this.#snapshotTimer = undefined;
+
+    if (this.#snapshotPath) {
+      await this.snapshot();
+    }
+  }
 
-  public close() {}
+  /**
+   * Write the history to the snapshot file, if it changed since the last
+   * snapshot. Snapshots are written to a temporary file first, which then
+   * replaces the previous snapshot, so readers never see a partial snapshot.
+   * Concurrent calls wait for the snapshot in progress.
+   */
+  public async snapshot() {
+    // Wait for a snapshot in progress, as it may not include the latest updates
+    while (this.#snapshotting) {
+      await this.#snapshotting;
+    }
+
+    if (!this.#snapshotPath || !this.#changed) {
+      return;
+    }
+
+    this.#changed = false;
+    this.#snapshotting = writeSnapshot(this.#snapshotPath, [...this.#store])
+      .catch((error) => {
+        this.#changed = true;
+        Log.error(`Writing memory snapshot failed: ${error.message}`, { error });
+      })
+      .finally(() => this.#snapshotting = undefined);
+
+    await this.#snapshotting;
+  }
+
+  async #restore(path: string) {
+    let contents: string;
+
+    try {
+      contents = await Deno.readTextFile(path);
+    } catch (error) {
+      // There is no snapshot yet on the first start
+      if (error instanceof Deno.errors.NotFound) {
+        return;
+      }
+
+      throw error;
+    }
+
+    for (const line of contents.split("\n")) {
+      const update = line ? parseLine(line) : undefined;
+
+      if (update) {
+        this.#store.push(update);
+      }
+    }
+
+    Log.info(`Restored ${this.#store.length} updates from memory snapshot "${path}"`);
+  }
 
   public addEventListener<K extends keyof EventMap>(
     type: K,
@@ -64,25 +166,101 @@ export class MemoryTransport implements Transport {
       const update = (event as MessageEvent<Update>).data;
 
       this.#store.push(update);
+      this.#changed = true;
     }
 
     this.#target.dispatchEvent(event);
 
     return true;
   }
+
+  public publish(update: Update) {
+    this.dispatchEvent(new MessageEvent("update", { data: update }));
+
+    return Promise.resolve();
+  }
+
+  public store(updates: Update[]) {
+    for (const update of updates) {
+      this.#store.push(update);
+    }
+
+    this.#changed = true;
+
+    return Promise.resolve();
+  }
 }
 
+const options = z.object({
+  size: z.coerce
+    .number({ description: "Maximum number of updates to store." })
+    .int()
+    .positive()
+    .optional(),
+  snapshot: z
+    .string({ description: "Path of a file to keep a snapshot of the history in." })
+    .min(1)
+    .optional(),
+  snapshotInterval: durationOption(
+    "Interval between snapshots, such as 30s. Defaults to 1m.",
+  )
+    .default("1m"),
+}).strict();
+
 /**
- * A ring buffer that stores a fixed number of items.
+ * Write a snapshot of the history to a temporary file, and move it into place.
  *
- * When the buffer is full, new items will replace the oldest items.
+ * @param path Path of the snapshot file
+ * @param updates Updates to write, oldest first
+ */
+async function writeSnapshot(path: string, updates: Update[]) {
+  const temporaryPath = `${path}.tmp`;
+  const lines = updates.map((update) => `${JSON.stringify(update)}\n`);
+
+  await Deno.writeTextFile(temporaryPath, lines.join(""));
+  await Deno.rename(temporaryPath, path);
+}
+
+function parseLine(line: string) {
+  try {
+    const update: unknown = JSON.parse(line);
+
+    if (!isUpdate(update)) {
+      throw new Error("Not an update");
+    }
+
+    return update;
+  } catch (error) {
+    Log.warn(`Skipping malformed snapshot line: ${error.message}`, { line });
+
+    return undefined;
+  }
+}
+
+type MemoryTransportOptions = z.output<typeof options>;
+
+/**
+ * A ring buffer that stores a fixed number of items, indexed by key.
+ *
+ * When the buffer is full, new items will replace the oldest items. Every item
+ * is assigned a sequence number when pushed, which increases monotonically and
+ * never wraps around; the index maps keys to those sequence numbers, so items
+ * may be looked up in constant time, no matter how often the buffer wrapped
+ * around already. If multiple items share a key, the index points to the most
+ * recent one.
  */
 class RingBuffer<T> {
+  readonly #key: (item: T) => string;
+  readonly #index = new Map<string, number>();
   #buffer: T[] = [];
   #limit: number;
   #pointer = 0;
 
-  constructor(limit = Infinity) {
+  // Sequence number of the oldest item in the buffer
+  #first = 0;
+
+  constructor(key: (item: T) => string, limit = Infinity) {
+    this.#key = key;
     this.#limit = limit;
   }
 
@@ -95,13 +273,18 @@ class RingBuffer<T> {
   }
 
   set limit(limit) {
-    this.#limit = limit;
-
     if (limit === 0) {
       this.clear();
-    } else if (limit !== this.limit) {
-      this.#buffer = [...this.#buffer].slice(-limit);
-      this.#pointer = this.#buffer.length;
+    } else if (limit !== this.#limit) {
+      const items = [...this];
+      const kept = items.slice(-limit);
+
+      for (const item of items.slice(0, items.length - kept.length)) {
+        this.#evict(item);
+      }
+
+      this.#buffer = kept;
+      this.#pointer = kept.length % limit;
     }
 
     this.#limit = limit;
@@ -109,22 +292,76 @@ class RingBuffer<T> {
 
   push(value: T) {
     if (this.#buffer.length === this.#limit) {
+      this.#evict(this.#buffer[this.#pointer]);
       this.#buffer[this.#pointer] = value;
     } else {
       this.#buffer.push(value);
     }
 
     this.#pointer = (this.#pointer + 1) % this.#limit;
+    this.#index.set(this.#key(value), this.#first + this.#buffer.length - 1);
 
     return this;
   }
 
+  /**
+   * Look up the sequence number of the item with the given key.
+   *
+   * @param key Key of the item
+   * @returns The sequence number, or `undefined` if the item is not in the
+   *          buffer (anymore)
+   */
+  sequenceOf(key: string) {
+    return this.#index.get(key);
+  }
+
+  /**
+   * Copy all items starting at the given sequence number, oldest first.
+   *
+   * @param sequence Sequence number of the first item to copy
+   */
+  slice(sequence: number) {
+    const items: T[] = [];
+    const end = this.#first + this.#buffer.length;
+
+    for (let current = Math.max(sequence, this.#first); current < end; current++) {
+      items.push(this.#buffer[this.#position(current)]);
+    }
+
+    return items;
+  }
+
   clear() {
+    this.#first += this.#buffer.length;
+    this.#index.clear();
     this.#buffer = [];
     this.#pointer = 0;
   }
 
   *[Symbol.iterator]() {
-    yield* this.#buffer;
+    // Once the buffer is full, the pointer marks the oldest item
+    if (this.#buffer.length === this.#limit) {
+      yield* this.#buffer.slice(this.#pointer);
+      yield* this.#buffer.slice(0, this.#pointer);
+    } else {
+      yield* this.#buffer;
+    }
+  }
+
+  #position(sequence: number) {
+    const offset = sequence - this.#first;
+
+    return this.#buffer.length === this.#limit ? (this.#pointer + offset) % this.#limit : offset;
+  }
+
+  #evict(item: T) {
+    const key = this.#key(item);
+
+    // The key may have been reused by a more recent item in the meantime
+    if (this.#index.get(key) === this.#first) {
+      this.#index.delete(key);
+    }
+
+    this.#first++;
   }
 }
@@ -0,0 +1,97 @@
+import { earliestEventId } from "../hub.ts";
+import { createUpdate } from "../test_utilities.ts";
+import type { Update } from "../updates.ts";
+import { MemoryTransport } from "./memory.ts";
+
+/**
+ * The history lookup of the memory transport before it kept an index of event
+ * IDs, kept for comparison: Every replay scans the history from the oldest
+ * update until it finds the last event ID.
+ */
+class LinearHistory {
+  readonly #buffer: Update[] = [];
+  #pointer = 0;
+
+  constructor(public readonly limit: number) {}
+
+  push(update: Update) {
+    if (this.#buffer.length === this.limit) {
+      this.#buffer[this.#pointer] = update;
+    } else {
+      this.#buffer.push(update);
+    }
+
+    this.#pointer = (this.#pointer + 1) % this.limit;
+  }
+
+  async *eventsAfter(lastEventId = earliestEventId) {
+    let next = lastEventId === earliestEventId;
+
+    for (const update of this.#items()) {
+      if (next) {
+        yield update;
+      }
+
+      if (update.id === lastEventId) {
+        next = true;
+      }
+    }
+  }
+
+  *#items() {
+    if (this.#buffer.length === this.limit) {
+      yield* this.#buffer.slice(this.#pointer);
+      yield* this.#buffer.slice(0, this.#pointer);
+    } else {
+      yield* this.#buffer;
+    }
+  }
+}
+
+// Clients typically reconnect shortly after losing the connection, so they
+// only missed a few of the most recent updates.
+const missed = 10;
+
+for (const size of [1_000, 100_000]) {
+  // Fill the history twice, so the buffer has wrapped around already
+  const updates = Array.from({ length: size * 2 }, (_, index) => createUpdate(`update-${index}`));
+  const lastEventId = updates[updates.length - missed - 1].id;
+
+  const linear = new LinearHistory(size);
+  const indexed = new MemoryTransport(size);
+
+  for (const update of updates) {
+    linear.push(update);
+    indexed.dispatchEvent(new MessageEvent("update", { data: update }));
+  }
+
+  Deno.bench({
+    name: `Linear scan of ${size} updates`,
+    group: `Replay the last ${missed} of ${size} updates`,
+    baseline: true,
+    async fn() {
+      await Array.fromAsync(linear.eventsAfter(lastEventId));
+    },
+  });
+
+  Deno.bench({
+    name: `Indexed lookup in ${size} updates`,
+    group: `Replay the last ${missed} of ${size} updates`,
+    async fn() {
+      await Array.fromAsync(indexed.eventsAfter(lastEventId));
+    },
+  });
+}
+
+Deno.bench("Dispatch updates into a full history", (bench) => {
+  const transport = new MemoryTransport(1_000);
+  const updates = Array.from({ length: 10_000 }, (_, index) => createUpdate(`update-${index}`));
+
+  bench.start();
+
+  for (const update of updates) {
+    transport.dispatchEvent(new MessageEvent("update", { data: update }));
+  }
+
+  bench.end();
+});
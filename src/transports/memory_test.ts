@@ -0,0 +1,188 @@
+import { assertEquals, assertRejects } from "@std/assert";
+import { join } from "@std/path";
+import { ZodError } from "zod";
+import { earliestEventId } from "../hub.ts";
+import { createUpdate, waitFor } from "../test_utilities.ts";
+import { UnknownEventIdError } from "./_errors.ts";
+import { testTransportConformance } from "./_conformance.ts";
+import { MemoryTransport } from "./memory.ts";
+import { connectTransport } from "./mod.ts";
+
+testTransportConformance("Memory", {
+  createCluster: () => ({
+    uri: new URL("memory:"),
+    create: () => new MemoryTransport(),
+  }),
+  shared: false,
+  retention: { query: "size=3", limit: 3 },
+});
+
+Deno.test("Memory transport history replay", async (ctx) => {
+  await ctx.step("Reject unknown event IDs", async () => {
+    const transport = new MemoryTransport();
+    dispatch(transport, "first", "second");
+
+    await assertRejects(() => replay(transport, "unknown"), UnknownEventIdError, "unknown");
+  });
+
+  await ctx.step("Reject event IDs evicted from the history", async () => {
+    const transport = new MemoryTransport(3);
+    dispatch(transport, "first", "second", "third", "fourth");
+
+    await assertRejects(() => replay(transport, "first"), UnknownEventIdError, "first");
+  });
+
+  await ctx.step("Find updates after the history wrapped around", async () => {
+    const transport = new MemoryTransport(3);
+    dispatch(transport, ...ids(10));
+
+    assertEquals(await replay(transport, "update-7"), ["update-8", "update-9"]);
+    assertEquals(await replay(transport, "update-8"), ["update-9"]);
+    assertEquals(await replay(transport, "update-9"), []);
+  });
+
+  await ctx.step("Find updates after shrinking the history", async () => {
+    const transport = new MemoryTransport(5);
+    dispatch(transport, ...ids(7));
+    await connectTransport(transport, new URL("memory:?size=2"));
+    dispatch(transport, "update-7");
+
+    assertEquals(await replay(transport, "update-6"), ["update-7"]);
+    await assertRejects(() => replay(transport, "update-5"), UnknownEventIdError);
+  });
+
+  await ctx.step("Replay after the most recent update with a reused ID", async () => {
+    const transport = new MemoryTransport(3);
+    dispatch(transport, "first", "second", "first", "third", "fourth");
+
+    assertEquals(await replay(transport, "first"), ["third", "fourth"]);
+  });
+});
+
+Deno.test("Memory transport snapshots", async (ctx) => {
+  await ctx.step("Restore the history written when closing", async () => {
+    await using snapshot = await createSnapshotPath();
+    const transport = await connect(snapshot.query);
+    dispatch(transport, "first", "second");
+    await transport.close();
+
+    const restored = await connect(snapshot.query);
+    const updates = await Array.fromAsync(restored.eventsAfter(earliestEventId));
+    await restored.close();
+
+    assertEquals(updates, [createUpdate("first"), createUpdate("second")]);
+  });
+
+  await ctx.step("Write snapshots periodically", async () => {
+    await using snapshot = await createSnapshotPath();
+    const transport = await connect(`${snapshot.query}&snapshotInterval=10ms`);
+    dispatch(transport, "first");
+
+    await waitFor(() => exists(snapshot.path));
+    const lines = (await Deno.readTextFile(snapshot.path)).trim().split("\n");
+    await transport.close();
+
+    assertEquals(lines.map((line) => JSON.parse(line).id), ["first"]);
+  });
+
+  await ctx.step("Start with an empty history without a snapshot", async () => {
+    await using snapshot = await createSnapshotPath();
+    const transport = await connect(snapshot.query);
+
+    assertEquals(await replay(transport, earliestEventId), []);
+    await transport.close();
+  });
+
+  await ctx.step("Only keep the latest updates within the limit", async () => {
+    await using snapshot = await createSnapshotPath();
+    const transport = await connect(snapshot.query);
+    dispatch(transport, ...ids(5));
+    await transport.close();
+
+    const restored = await connect(`${snapshot.query}&size=2`);
+
+    assertEquals(await replay(restored, "update-3"), ["update-4"]);
+    await assertRejects(() => replay(restored, "update-2"), UnknownEventIdError);
+    await restored.close();
+  });
+
+  await ctx.step("Skip malformed lines", async () => {
+    await using snapshot = await createSnapshotPath();
+    await Deno.writeTextFile(
+      snapshot.path,
+      `${JSON.stringify(createUpdate("first"))}\n{"id":\n${
+        JSON.stringify(createUpdate("second"))
+      }\n`,
+    );
+    const transport = await connect(snapshot.query);
+
+    assertEquals(await replay(transport, earliestEventId), ["first", "second"]);
+    await transport.close();
+  });
+
+  await ctx.step("Skip lines that are not updates", async () => {
+    await using snapshot = await createSnapshotPath();
+    await Deno.writeTextFile(
+      snapshot.path,
+      `${JSON.stringify(createUpdate("first"))}\n{"id":"broken","canonicalTopic":1}\n[]\n`,
+    );
+    const transport = await connect(snapshot.query);
+
+    assertEquals(await replay(transport, earliestEventId), ["first"]);
+    await transport.close();
+  });
+
+  await ctx.step("Reject invalid snapshot intervals", async () => {
+    await assertRejects(
+      () => connect("snapshot=history.ndjson&snapshotInterval=often"),
+      ZodError,
+      "snapshotInterval",
+    );
+  });
+});
+
+function dispatch(transport: MemoryTransport, ...ids: string[]) {
+  for (const id of ids) {
+    transport.dispatchEvent(new MessageEvent("update", { data: createUpdate(id) }));
+  }
+}
+
+async function replay(transport: MemoryTransport, lastEventId: string) {
+  return (await Array.fromAsync(transport.eventsAfter(lastEventId))).map(({ id }) => id);
+}
+
+function ids(count: number) {
+  return Array.from({ length: count }, (_, index) => `update-${index}`);
+}
+
+async function connect(query: string) {
+  return await connectTransport(new MemoryTransport(), new URL(`memory:?${query}`));
+}
+
+/**
+ * Create a path for a snapshot in a temporary directory, to be removed after
+ * the test.
+ */
+async function createSnapshotPath() {
+  const directory = await Deno.makeTempDir({ prefix: "mercure_test_" });
+  const path = join(directory, "history.ndjson");
+
+  return {
+    path,
+    query: `snapshot=${encodeURIComponent(path)}`,
+
+    async [Symbol.asyncDispose]() {
+      await Deno.remove(directory, { recursive: true });
+    },
+  };
+}
+
+async function exists(path: string) {
+  try {
+    await Deno.stat(path);
+
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,287 @@
+import * as Log from "@std/log";
+import { z } from "zod";
+import { earliestEventId } from "../hub.ts";
+import type { Update } from "../updates.ts";
+import { UnknownEventIdError } from "./_errors.ts";
+import {
+  connectTransport,
+  type EventMap,
+  type MessageEventListener,
+  type Transport,
+  transports,
+} from "./mod.ts";
+
+/**
+ * A composite transport that mirrors all events to two other transports, to
+ * migrate from one transport to another without losing any history.
+ *
+ * Both transports are configured using URIs passed as options, for example
+ * `mirror:?primary=redis://localhost:6379&secondary=postgresql://localhost`;
+ * options of the inner transports must be URL-encoded along with their URI.
+ * Every event is dispatched to both transports, while listeners are attached
+ * to the primary transport only. History is read from the primary transport,
+ * falling back to the secondary transport if the primary one fails, or does
+ * not know the last event ID.
+ *
+ * To copy the existing history from one transport to the other, the `backfill`
+ * option may be set to the transport to copy from when connecting. Only updates
+ * after the latest one the other transport knows are copied, so backfilling is
+ * idempotent, and keeps the history in order. The other transport must be able
+ * to store updates without delivering them, so subscribers don't receive the
+ * history again.
+ */
+export class MirrorTransport implements Transport<"mirror:", MirrorTransportOptions> {
+  public readonly protocol = "mirror:";
+  public readonly options = options;
+
+  #_primary: Transport | undefined;
+  #_secondary: Transport | undefined;
+
+  async connect(
+    _uri: URL,
+    enableSubscriptionEvents: boolean,
+    { primary, secondary, backfill }: MirrorTransportOptions,
+  ) {
+    this.#_primary = await connectTransport(
+      instantiate(primary),
+      primary,
+      enableSubscriptionEvents,
+    );
+    this.#_secondary = await connectTransport(
+      instantiate(secondary),
+      secondary,
+      enableSubscriptionEvents,
+    );
+
+    try {
+      if (backfill === "primary") {
+        await copyHistory(this.primary, this.secondary);
+      } else if (backfill === "secondary") {
+        await copyHistory(this.secondary, this.primary);
+      }
+    } catch (error) {
+      await this.close();
+
+      throw error;
+    }
+  }
+
+  async close() {
+    await Promise.all([this.#_primary?.close(), this.#_secondary?.close()]);
+  }
+
+  /**
+   * The transport history is read from, and listeners are attached to.
+   */
+  get primary() {
+    if (!this.#_primary) {
+      throw new Error(
+        "Unexpected state: Not connected. The primary transport should have " +
+          "been connected before attempting to use it.",
+      );
+    }
+
+    return this.#_primary;
+  }
+
+  /**
+   * The transport events are mirrored to.
+   */
+  get secondary() {
+    if (!this.#_secondary) {
+      throw new Error(
+        "Unexpected state: Not connected. The secondary transport should have " +
+          "been connected before attempting to use it.",
+      );
+    }
+
+    return this.#_secondary;
+  }
+
+  /**
+   * Replay all updates after the given event ID.
+   *
+   * Updates are read from the primary transport. If it fails before yielding
+   * any updates, for example because it does not know the given event ID yet,
+   * the secondary transport is used. Only if the secondary transport does not
+   * know the event ID either, an {@link UnknownEventIdError} is thrown.
+   *
+   * @param lastEventId ID of the last update received by the client
+   */
+  async *eventsAfter(lastEventId = earliestEventId) {
+    let replayed = false;
+
+    try {
+      for await (const update of this.primary.eventsAfter(lastEventId)) {
+        replayed = true;
+
+        yield update;
+      }
+    } catch (error) {
+      // Once updates have been replayed, we can't switch over anymore
+      if (replayed) {
+        throw error;
+      }
+
+      // Unknown event IDs are expected while migrating, so don't warn about them
+      if (!(error instanceof UnknownEventIdError)) {
+        Log.warn(`Reading history from the primary transport failed: ${error.message}`, {
+          error,
+        });
+      }
+
+      yield* this.secondary.eventsAfter(lastEventId);
+    }
+  }
+
+  removeEventListener<K extends keyof EventMap>(
+    type: K,
+    listener: MessageEventListener<EventMap[K]>,
+  ) {
+    this.primary.removeEventListener(type, listener);
+  }
+
+  addEventListener<K extends keyof EventMap>(
+    type: K,
+    listener: MessageEventListener<EventMap[K]>,
+    options?: AddEventListenerOptions,
+  ) {
+    this.primary.addEventListener(type, listener, options);
+  }
+
+  dispatchEvent<K extends keyof EventMap>(event: EventMap[K]) {
+    // The secondary transport gets a copy of the event, as an event may not be
+    // dispatched twice at the same time.
+    this.secondary.dispatchEvent(copyEvent(event));
+
+    return this.primary.dispatchEvent(event);
+  }
+
+  /**
+   * Publish an update, acknowledged by the primary transport. The secondary
+   * transport is only kept in sync on a best-effort basis.
+   *
+   * @param update Update to publish
+   * @param signal Signal to abort waiting for the update to be stored
+   */
+  async publish(update: Update, signal?: AbortSignal) {
+    if (!this.primary.publish) {
+      this.dispatchEvent(new MessageEvent("update", { data: update }));
+
+      return;
+    }
+
+    await this.primary.publish(update, signal);
+    this.secondary.dispatchEvent(new MessageEvent("update", { data: update }));
+  }
+}
+
+/**
+ * Create a new instance of the transport registered for the protocol of the
+ * given URI. The registry holds a single instance per protocol, but both inner
+ * transports may use the same protocol, so each of them needs its own.
+ *
+ * @param uri URI of the transport
+ */
+function instantiate(uri: URL) {
+  const transport = transports.get(uri.protocol as `${string}:`)!;
+
+  return new (transport.constructor as new () => Transport)();
+}
+
+/**
+ * Copy all updates after the latest one the target transport knows from one
+ * transport to another, in batches. The updates are stored only, so they are
+ * not delivered to any subscribers.
+ *
+ * @param source Transport to copy updates from
+ * @param target Transport to copy updates to
+ * @throws {Error} If the target transport can't store updates only
+ */
+async function copyHistory(source: Transport, target: Transport) {
+  if (!target.store) {
+    throw new Error(
+      `Backfill failed: The "${target.protocol}" transport can't store updates ` +
+        "without delivering them",
+    );
+  }
+
+  let latest = earliestEventId;
+  let batch: Update[] = [];
+  let copied = 0;
+
+  for await (const { id } of target.eventsAfter(earliestEventId)) {
+    latest = id;
+  }
+
+  try {
+    for await (const update of source.eventsAfter(latest)) {
+      batch.push(update);
+
+      if (batch.length === backfillBatchSize) {
+        await target.store(batch);
+        copied += batch.length;
+        batch = [];
+      }
+    }
+  } catch (error) {
+    if (!(error instanceof UnknownEventIdError)) {
+      throw error;
+    }
+
+    // Copying updates the source transport knows would break the order of
+    // the history, as they would have to be inserted before the latest one.
+    Log.warn(
+      `Skipping backfill: The ${source.protocol} transport does not know the latest ` +
+        `update of the ${target.protocol} transport`,
+    );
+
+    return;
+  }
+
+  if (batch.length > 0) {
+    await target.store(batch);
+    copied += batch.length;
+  }
+
+  Log.info(`Backfilled ${copied} updates from ${source.protocol} to ${target.protocol}`);
+}
+
+/**
+ * Number of updates to copy at once when backfilling.
+ */
+const backfillBatchSize = 500;
+
+function copyEvent<K extends keyof EventMap>(event: EventMap[K]): EventMap[K] {
+  return (
+    isUpdateEvent(event)
+      ? new MessageEvent(event.type, { data: event.data })
+      : new CustomEvent(event.type, { detail: event.detail })
+  ) as EventMap[K];
+}
+
+function isUpdateEvent(
+  event: EventMap[keyof EventMap],
+): event is MessageEvent<Update> {
+  return event.type === "update";
+}
+
+const transportUri = (description: string) =>
+  z
+    .string({ description })
+    .url()
+    .transform((value) => new URL(value))
+    .refine(({ protocol }) => protocol !== "mirror:", "Cannot mirror a mirror transport")
+    .refine(({ protocol }) => transports.has(protocol as `${string}:`), "Unknown transport");
+
+const options = z.object({
+  primary: transportUri("URI of the transport to read history from."),
+  secondary: transportUri("URI of the transport to mirror events to."),
+  backfill: z
+    .enum(["primary", "secondary"], {
+      description: "Transport to copy the history from into the other one when connecting.",
+    })
+    .optional(),
+}).strict();
+
+type MirrorTransportOptions = z.output<typeof options>;
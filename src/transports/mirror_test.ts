@@ -0,0 +1,251 @@
+import { assertEquals, assertRejects, assertThrows } from "@std/assert";
+import { toFileUrl } from "@std/path";
+import { z, ZodError } from "zod";
+import { earliestEventId } from "../hub.ts";
+import { createUpdate } from "../test_utilities.ts";
+import { registerTransports } from "../transport.ts";
+import type { Update } from "../updates.ts";
+import { FileTransport } from "./file.ts";
+import { MemoryTransport } from "./memory.ts";
+import { MirrorTransport } from "./mirror.ts";
+import {
+  connectTransport,
+  type EventMap,
+  type MessageEventListener,
+  parseTransportOptions,
+  registerTransport,
+  type Transport,
+} from "./mod.ts";
+
+/**
+ * A transport that fails to replay history, but keeps events in memory.
+ */
+class BrokenTransport implements Transport<"broken:"> {
+  public readonly protocol = "broken:";
+  public readonly options = z.object({}).strict();
+
+  readonly #memory = new MemoryTransport();
+
+  public connect() {}
+
+  public close() {}
+
+  public async *eventsAfter(): AsyncGenerator<Update> {
+    yield* await Promise.reject<Update[]>(new Error("Connection refused"));
+  }
+
+  public addEventListener<K extends keyof EventMap>(
+    type: K,
+    listener: MessageEventListener<EventMap[K]>,
+  ) {
+    this.#memory.addEventListener(type, listener);
+  }
+
+  public removeEventListener<K extends keyof EventMap>(
+    type: K,
+    listener: MessageEventListener<EventMap[K]>,
+  ) {
+    this.#memory.removeEventListener(type, listener);
+  }
+
+  public dispatchEvent<K extends keyof EventMap>(event: EventMap[K]) {
+    return this.#memory.dispatchEvent(event);
+  }
+}
+
+await registerTransports();
+registerTransport(new BrokenTransport());
+
+Deno.test("Mirror transport events", async (ctx) => {
+  await ctx.step("Dispatch events to both transports", async () => {
+    const transport = await connect("primary=memory:&secondary=memory:");
+
+    transport.dispatchEvent(new MessageEvent("update", { data: createUpdate("first") }));
+    transport.dispatchEvent(new MessageEvent("update", { data: createUpdate("second") }));
+
+    assertEquals(await ids(transport.primary.eventsAfter(earliestEventId)), ["first", "second"]);
+    assertEquals(await ids(transport.secondary.eventsAfter(earliestEventId)), ["first", "second"]);
+    await transport.close();
+  });
+
+  await ctx.step("Deliver events from the primary transport", async () => {
+    const transport = await connect("primary=memory:&secondary=memory:");
+    const received: Update[] = [];
+    transport.addEventListener("update", ({ data }) => received.push(data));
+
+    transport.dispatchEvent(new MessageEvent("update", { data: createUpdate("first") }));
+    transport.secondary.dispatchEvent(
+      new MessageEvent("update", { data: createUpdate("second") }),
+    );
+    await transport.close();
+
+    assertEquals(received.map(({ id }) => id), ["first"]);
+  });
+});
+
+Deno.test("Mirror transport history replay", async (ctx) => {
+  await ctx.step("Replay updates from the primary transport", async () => {
+    const transport = await connect("primary=memory:&secondary=memory:");
+    transport.dispatchEvent(new MessageEvent("update", { data: createUpdate("first") }));
+    transport.dispatchEvent(new MessageEvent("update", { data: createUpdate("second") }));
+    transport.secondary.dispatchEvent(
+      new MessageEvent("update", { data: createUpdate("third") }),
+    );
+
+    assertEquals(await ids(transport.eventsAfter("first")), ["second"]);
+    await transport.close();
+  });
+
+  await ctx.step("Fall back to the secondary transport for unknown events", async () => {
+    const transport = await connect("primary=memory:&secondary=memory:");
+    transport.secondary.dispatchEvent(
+      new MessageEvent("update", { data: createUpdate("first") }),
+    );
+    transport.dispatchEvent(new MessageEvent("update", { data: createUpdate("second") }));
+
+    assertEquals(await ids(transport.eventsAfter("first")), ["second"]);
+    await transport.close();
+  });
+
+  await ctx.step("Replay nothing if the primary transport has nothing to replay", async () => {
+    const transport = await connect("primary=memory:&secondary=memory:");
+    transport.dispatchEvent(new MessageEvent("update", { data: createUpdate("first") }));
+    transport.secondary.dispatchEvent(
+      new MessageEvent("update", { data: createUpdate("second") }),
+    );
+
+    assertEquals(await ids(transport.eventsAfter("first")), []);
+    await transport.close();
+  });
+
+  await ctx.step("Fall back to the secondary transport on failures", async () => {
+    const transport = await connect("primary=broken:&secondary=memory:");
+    transport.dispatchEvent(new MessageEvent("update", { data: createUpdate("first") }));
+
+    assertEquals(await ids(transport.eventsAfter(earliestEventId)), ["first"]);
+    await transport.close();
+  });
+
+  await ctx.step("Fail if the secondary transport fails, too", async () => {
+    const transport = await connect("primary=broken:&secondary=broken:");
+
+    await assertRejects(() => ids(transport.eventsAfter(earliestEventId)), Error, "refused");
+    await transport.close();
+  });
+});
+
+Deno.test("Mirror transport backfill", async (ctx) => {
+  await ctx.step("Copy the history into the other transport", async () => {
+    await using log = await createLog("first", "second");
+    const transport = await connect(`primary=${log.uri}&secondary=memory:&backfill=primary`);
+
+    assertEquals(await ids(transport.secondary.eventsAfter(earliestEventId)), ["first", "second"]);
+    await transport.close();
+  });
+
+  await ctx.step("Copy the history in the other direction", async () => {
+    await using log = await createLog("first", "second");
+    const transport = await connect(`primary=memory:&secondary=${log.uri}&backfill=secondary`);
+
+    assertEquals(await ids(transport.eventsAfter(earliestEventId)), ["first", "second"]);
+    await transport.close();
+  });
+
+  await ctx.step("Skip updates the other transport knows already", async () => {
+    await using source = await createLog("first", "second", "third");
+    await using target = await createLog("first");
+    const transport = await connect(
+      `primary=${source.uri}&secondary=${target.uri}&backfill=primary`,
+    );
+
+    // Closing the file log waits for all updates to be written
+    await transport.close();
+
+    assertEquals(
+      await ids(transport.secondary.eventsAfter(earliestEventId)),
+      ["first", "second", "third"],
+    );
+  });
+
+  await ctx.step("Reject transports unable to store updates only", async () => {
+    await using log = await createLog("first");
+
+    await assertRejects(
+      () => connect(`primary=${log.uri}&secondary=broken:&backfill=primary`),
+      Error,
+      "can't store updates",
+    );
+  });
+
+  await ctx.step("Leave the history alone by default", async () => {
+    await using log = await createLog("first");
+    const transport = await connect(`primary=${log.uri}&secondary=memory:`);
+
+    assertEquals(await ids(transport.secondary.eventsAfter(earliestEventId)), []);
+    await transport.close();
+  });
+});
+
+Deno.test("Mirror transport options", async (ctx) => {
+  const transport = new MirrorTransport();
+  const parse = (query: string) => parseTransportOptions(transport, new URL(`mirror:?${query}`));
+
+  await ctx.step("Parse the transport URIs", () => {
+    const options = parse("primary=redis://localhost:6379&secondary=memory:");
+
+    assertEquals(options.primary.href, "redis://localhost:6379");
+    assertEquals(options.secondary.href, "memory:");
+    assertEquals(options.backfill, undefined);
+  });
+
+  await ctx.step("Pass options on to the inner transports", async () => {
+    await assertRejects(
+      () => connect(`primary=memory:&secondary=${encodeURIComponent("memory:?size=0")}`),
+      ZodError,
+      "size",
+    );
+  });
+
+  await ctx.step("Reject invalid options", () => {
+    assertThrows(() => parse("primary=memory:"), ZodError, "secondary");
+    assertThrows(() => parse("primary=foo:&secondary=memory:"), ZodError, "primary");
+    assertThrows(() => parse("primary=mirror:&secondary=memory:"), ZodError, "primary");
+    assertThrows(
+      () => parse("primary=memory:&secondary=memory:&backfill=both"),
+      ZodError,
+      "backfill",
+    );
+  });
+});
+
+async function connect(query: string) {
+  return await connectTransport(new MirrorTransport(), new URL(`mirror:?${query}`));
+}
+
+/**
+ * Create a file log holding the given updates, to have a transport with some
+ * history to start with.
+ */
+async function createLog(...updates: string[]) {
+  const path = await Deno.makeTempDir({ prefix: "mercure_test_" });
+  const uri = toFileUrl(path);
+  const transport = await connectTransport(new FileTransport(), uri);
+
+  for (const id of updates) {
+    transport.dispatchEvent(new MessageEvent("update", { data: createUpdate(id) }));
+  }
+
+  await transport.close();
+
+  return {
+    uri: encodeURIComponent(uri.href),
+
+    async [Symbol.asyncDispose]() {
+      await Deno.remove(path, { recursive: true });
+    },
+  };
+}
+
+async function ids(updates: AsyncIterable<Update>) {
+  return (await Array.fromAsync(updates)).map(({ id }) => id);
+}
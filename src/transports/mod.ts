@@ -1,8 +1,12 @@
+import { z, ZodError } from "zod";
 import type { MaybePromise } from "../server/utils.ts";
 import type { Subscriber } from "../subscribers.ts";
 import type { Subscription } from "../subscriptions.ts";
 import type { Update } from "../updates.ts";
 
+// Part of the transport interface, so third-party transports may throw it, too
+export { UnknownEventIdError } from "./_errors.ts";
+
 export const transports: Transports = new Map();
 
 /**
@@ -28,21 +32,176 @@ export async function createTransport(
     );
   }
 
-  await transport.connect(uri, enableSubscriptionEvents);
+  return await connectTransport(transport, uri, enableSubscriptionEvents);
+}
+
+/**
+ * Connect a transport instance, passing the options from the URI.
+ *
+ * @param transport Transport to connect
+ * @param uri URI to connect to
+ * @param enableSubscriptionEvents Whether to enable subscription events
+ * @throws {ZodError} If the URI contains invalid options
+ */
+export async function connectTransport<T extends Transport>(
+  transport: T,
+  uri: URL,
+  enableSubscriptionEvents = false,
+) {
+  const options = parseTransportOptions(transport, uri);
+
+  await transport.connect(uri, enableSubscriptionEvents, options);
 
   return transport;
 }
 
-export type Transport<T extends Protocol = Protocol> = {
+/**
+ * Parse the options of a transport from the query parameters of its URI.
+ *
+ * Validation errors are reported on the `transportUri` configuration option,
+ * so they can be presented just like any other configuration error.
+ *
+ * @param transport Transport to parse the options for
+ * @param uri URI holding the options
+ * @throws {ZodError} If the URI contains invalid options
+ */
+export function parseTransportOptions<O extends UriOptions>(
+  transport: Transport<Protocol, O>,
+  uri: URL,
+): O {
+  const result = transport.options.safeParse(Object.fromEntries(uri.searchParams));
+
+  if (result.success) {
+    return result.data;
+  }
+
+  throw new ZodError(result.error.issues.map((issue) => ({
+    ...issue,
+    path: ["transportUri"],
+    message: issue.path.length > 0
+      ? `Invalid "${issue.path.join(".")}" parameter: ${issue.message}`
+      : `Invalid parameters: ${issue.message}`,
+  })));
+}
+
+/**
+ * Describe the options supported by a transport, for use in help texts.
+ *
+ * @param transport Transport to describe the options of
+ * @returns A list of option names and their descriptions
+ */
+export function describeTransportOptions(transport: Transport) {
+  const schema = transport.options;
+
+  if (!(schema instanceof z.ZodObject)) {
+    return [];
+  }
+
+  return Object
+    .entries(schema.shape as z.ZodRawShape)
+    .map(([name, option]) => [name, option.description ?? ""] as const);
+}
+
+/**
+ * Create a schema for a duration option, such as `500ms`, `90s`, `30m`, `24h`
+ * or `7d`. Durations without a unit are interpreted as milliseconds.
+ *
+ * @param description Description of the option
+ * @returns A schema transforming the duration into milliseconds
+ */
+export function durationOption(description: string) {
+  return z
+    .string({ description })
+    .regex(/^\d+(ms|s|m|h|d)?$/, 'Expected a duration such as "30m" or "24h"')
+    .transform((value) => {
+      const [, amount, unit = "ms"] = value.match(/^(\d+)(ms|s|m|h|d)?$/)!;
+
+      return Number(amount) * durationUnits[unit as keyof typeof durationUnits];
+    });
+}
+
+const durationUnits = {
+  ms: 1,
+  s: 1_000,
+  m: 60_000,
+  h: 3_600_000,
+  d: 86_400_000,
+};
+
+/**
+ * Create a schema for a size option, such as `512k`, `16m` or `1g`. Units are
+ * binary multiples; sizes without a unit are interpreted as bytes.
+ *
+ * @param description Description of the option
+ * @returns A schema transforming the size into bytes
+ */
+export function sizeOption(description: string) {
+  return z
+    .string({ description })
+    .regex(/^\d+(k|m|g)?$/i, 'Expected a size such as "512k" or "16m"')
+    .transform((value) => {
+      const [, amount, unit = ""] = value.match(/^(\d+)(k|m|g)?$/i)!;
+
+      return Number(amount) * sizeUnits[unit.toLowerCase() as keyof typeof sizeUnits];
+    });
+}
+
+const sizeUnits = {
+  "": 1,
+  k: 1_024,
+  m: 1_048_576,
+  g: 1_073_741_824,
+};
+
+export type Transport<
+  T extends Protocol = Protocol,
+  O extends UriOptions = UriOptions,
+> = {
   protocol: T;
+
+  /**
+   * Schema of the options accepted as query parameters of the transport URI.
+   */
+  options: z.ZodType<O, z.ZodTypeDef, unknown>;
+
   connect(
     uri: URL,
     enableSubscriptionEvents: boolean,
+    options: O,
   ): MaybePromise<void>;
   dispatchEvent<K extends keyof EventMap>(event: EventMap[K]): boolean;
+
+  /**
+   * Dispatch an update, and resolve once it has been stored, so publishers can
+   * be told whether it has been accepted. Local listeners only receive the
+   * update once it has been stored. If the signal aborts first, the promise
+   * rejects; the update may still be stored, if that has begun already.
+   * Transports without this method acknowledge updates right away.
+   */
+  publish?(update: Update, signal?: AbortSignal): Promise<void>;
+
+  /**
+   * Append updates to the history without delivering them to any listeners,
+   * local or remote, for example to copy the history of another transport.
+   * Transports that deliver updates by storing them can't offer this.
+   */
+  store?(updates: Update[]): Promise<void>;
+
+  /**
+   * Replay all updates after the given event ID, or all updates if it is the
+   * earliest event ID. Transports able to tell whether they know an event ID
+   * throw an {@link UnknownEventIdError} if they don't, instead of replaying
+   * nothing.
+   */
   eventsAfter(lastEventId: string): AsyncGenerator<Update>;
   close(): MaybePromise<void>;
 
+  /**
+   * Whether the transport is connected to its backend right now. Transports
+   * without a backend to lose, such as the memory transport, may omit it.
+   */
+  readonly status?: TransportStatus;
+
   addEventListener<K extends keyof EventMap>(
     type: K,
     listener: MessageEventListener<EventMap[K]>,
@@ -54,7 +213,14 @@ export type Transport<T extends Protocol = Protocol> = {
   ): void;
 };
 
+/**
+ * Connection status of a transport. While reconnecting, events are buffered
+ * by transports supporting it, but may not reach other hub nodes yet.
+ */
+export type TransportStatus = "connecting" | "connected" | "reconnecting" | "closed";
+
 type Protocol = `${string}:`;
+type UriOptions = Record<string, unknown>;
 type Transports<T extends Protocol = Protocol> = Map<T, Transport<T>>;
 
 export type MessageEventListener<T extends Event> = (event: T) => unknown;
@@ -0,0 +1,478 @@
+import * as Log from "@std/log";
+import {
+  connect,
+  type ConsumerMessages,
+  headers,
+  type JetStreamManager,
+  type Msg,
+  nanos,
+  type NatsConnection,
+  type StreamConfig,
+  type Subscription,
+} from "nats";
+import { z } from "zod";
+import { earliestEventId } from "../hub.ts";
+import { generateId, type Update } from "../updates.ts";
+import { UnknownEventIdError } from "./_errors.ts";
+import {
+  durationOption,
+  type EventMap,
+  type MessageEventListener,
+  sizeOption,
+  type Transport,
+} from "./mod.ts";
+import { PublishQueue, UpdateIndex } from "./supervisor.ts";
+
+/**
+ * A transport type that distributes events via NATS JetStream.
+ *
+ * Updates are published to a JetStream stream, on a subject derived from their
+ * canonical topic: `<subject>.updates.<topic>`, with the topic encoded as
+ * Base64URL, so it forms a single, valid subject token. This allows other NATS
+ * clients to filter updates by topic. Lifecycle events are not stored; they are
+ * published on the `<subject>.lifecycle` subject using core NATS.
+ *
+ * Every hub node follows the stream using an ordered consumer. While doing so,
+ * the transport maintains an index from the latest update IDs to stream
+ * sequences, which allows to start replaying history right after them. To build the
+ * index, the stream is read from the beginning when connecting; the connection
+ * is only established once the index has caught up.
+ *
+ * The stream is created automatically if it doesn't exist yet. Retention
+ * limits given as options are applied to existing streams, too.
+ */
+export class NatsTransport implements Transport<"nats:", NatsTransportOptions> {
+  public readonly protocol = "nats:";
+  public readonly options = options;
+
+  /**
+   * Unique identifier of this hub node.
+   */
+  public readonly nodeId: string;
+
+  #_connection: NatsConnection | undefined;
+  #messages: ConsumerMessages | undefined;
+  #subscription: Subscription | undefined;
+  #target = new EventTarget();
+  #publishing = new PublishQueue();
+  #index = new UpdateIndex<Position>(defaultIndexSize);
+  #lastSequence = 0;
+  #stream = "mercure";
+  #subject = "mercure";
+
+  /**
+   * Create a new NATS transport.
+   *
+   * @param nodeId Unique identifier of this hub node
+   */
+  constructor(nodeId: string = generateId()) {
+    this.nodeId = nodeId;
+  }
+
+  async connect(
+    uri: URL,
+    _enableSubscriptionEvents: boolean,
+    {
+      stream,
+      subject,
+      servers = [],
+      replicas,
+      maxAge,
+      maxMsgs,
+      maxBytes,
+      indexSize,
+    }: NatsTransportOptions,
+  ) {
+    this.#stream = stream;
+    this.#subject = subject;
+    this.#index = new UpdateIndex(Math.min(indexSize, maxMsgs ?? Infinity), maxAge);
+    this.#_connection = await connect({
+      servers: [uri.host, ...servers],
+      name: `mercure-${this.nodeId}`,
+      ...credentials(uri),
+    });
+
+    const { state } = await this.#createStream(replicas, {
+      ...(maxAge !== undefined ? { max_age: nanos(maxAge) } : {}),
+      ...(maxMsgs !== undefined ? { max_msgs: maxMsgs } : {}),
+      ...(maxBytes !== undefined ? { max_bytes: maxBytes } : {}),
+    });
+
+    this.#subscription = this.#connection.subscribe(`${subject}.lifecycle`);
+    void this.#listenLifecycle(this.#subscription);
+
+    // Messages stored before connecting are history, which is indexed, but
+    // not delivered. We're done catching up once we've seen the last of them.
+    const watermark = state.messages > 0 ? state.last_seq : 0;
+    const { promise: caughtUp, resolve } = Promise.withResolvers<void>();
+    const consumer = await this.#connection.jetstream().consumers.get(stream);
+    this.#messages = await consumer.consume();
+
+    if (watermark === 0) {
+      resolve();
+    }
+
+    void this.#listen(this.#messages, watermark, resolve);
+
+    await this.#catchUp(caughtUp);
+  }
+
+  async close() {
+    await this.#publishing.settled();
+    await this.#messages?.close();
+    this.#subscription?.unsubscribe();
+    await this.#connection.drain();
+  }
+
+  /**
+   * Replay all updates after the given event ID.
+   *
+   * The sequence of the update is resolved from the index, so a short-lived
+   * ordered consumer can start reading the stream right after it, up to the
+   * end of the stream as of the start of the replay. Messages are fetched in
+   * batches, so the replay ends even if the retention policy discards the
+   * last of them meanwhile.
+   * If the update ID is unknown, for example because it has been removed from
+   * the stream by the retention policy, an {@link UnknownEventIdError} is
+   * thrown.
+   *
+   * @param lastEventId ID of the last update received by the client
+   */
+  async *eventsAfter(lastEventId = earliestEventId) {
+    let start = 1;
+
+    if (lastEventId !== earliestEventId) {
+      const position = this.#index.get(lastEventId);
+
+      if (!position) {
+        throw new UnknownEventIdError(lastEventId);
+      }
+
+      start = position.sequence + 1;
+    }
+
+    const jsm = await this.#connection.jetstreamManager();
+    const { state } = await jsm.streams.info(this.#stream);
+
+    if (state.messages === 0 || start > state.last_seq) {
+      return;
+    }
+
+    const consumer = await this.#connection.jetstream().consumers.get(this.#stream, {
+      opt_start_seq: start,
+    });
+
+    for (let next = start; next <= state.last_seq;) {
+      const messages = await consumer.fetch({
+        max_messages: Math.min(state.last_seq - next + 1, replayBatchSize),
+        expires: replayBatchTimeout,
+      });
+      let received = false;
+
+      try {
+        for await (const message of messages) {
+          received = true;
+          next = message.seq + 1;
+
+          yield message.json<Update>();
+
+          if (message.seq >= state.last_seq || message.info.pending === 0) {
+            return;
+          }
+        }
+      } finally {
+        await messages.close();
+      }
+
+      // All messages left to replay have been discarded
+      if (!received) {
+        return;
+      }
+    }
+  }
+
+  removeEventListener<K extends keyof EventMap>(
+    type: K,
+    listener: MessageEventListener<EventMap[K]>,
+  ) {
+    this.#target.removeEventListener(type, listener as EventListener);
+  }
+
+  addEventListener<K extends keyof EventMap>(
+    type: K,
+    listener: MessageEventListener<EventMap[K]>,
+    options?: AddEventListenerOptions,
+  ) {
+    this.#target.addEventListener(type, listener as EventListener, options);
+  }
+
+  dispatchEvent<K extends keyof EventMap>(event: EventMap[K]) {
+    this.#publishing.push(() => this.#publish(event));
+
+    return this.#target.dispatchEvent(event);
+  }
+
+  /**
+   * Publish an update, and resolve once JetStream acknowledged storing it.
+   *
+   * @param update Update to publish
+   * @param signal Signal to abort waiting for the acknowledgement
+   */
+  async publish(update: Update, signal?: AbortSignal) {
+    const event = new MessageEvent("update", { data: update });
+
+    await this.#publishing.run(() => this.#publish(event), signal);
+    this.#target.dispatchEvent(event);
+  }
+
+  get #connection() {
+    if (!this.#_connection) {
+      throw new Error(
+        "Unexpected state: Not connected. A connection should have " +
+          "been established before attempting to use it.",
+      );
+    }
+
+    return this.#_connection;
+  }
+
+  /**
+   * Create the update stream, unless it exists already, in which case the
+   * given retention limits are applied to it.
+   *
+   * @param replicas Number of replicas when creating the stream
+   * @param limits Retention limits of the stream
+   */
+  async #createStream(replicas: number, limits: Partial<StreamConfig>) {
+    const jsm = await this.#connection.jetstreamManager();
+    const info = await findStream(jsm, this.#stream);
+
+    if (!info) {
+      return await jsm.streams.add({
+        name: this.#stream,
+        subjects: [`${this.#subject}.updates.>`],
+        num_replicas: replicas,
+        ...limits,
+      });
+    }
+
+    if (Object.keys(limits).length > 0) {
+      return await jsm.streams.update(this.#stream, { ...info.config, ...limits });
+    }
+
+    return info;
+  }
+
+  async #publish(event: EventMap[keyof EventMap]) {
+    const eventHeaders = headers();
+    eventHeaders.set("Mercure-Node", this.nodeId);
+
+    if (isUpdateEvent(event)) {
+      await this.#connection.jetstream().publish(
+        topicSubject(this.#subject, event.data.canonicalTopic),
+        JSON.stringify(event.data),
+        { msgID: event.data.id, headers: eventHeaders },
+      );
+    } else {
+      eventHeaders.set("Mercure-Type", event.type);
+      this.#connection.publish(`${this.#subject}.lifecycle`, JSON.stringify(event.detail), {
+        headers: eventHeaders,
+      });
+    }
+  }
+
+  /**
+   * Index and deliver updates stored in the stream.
+   *
+   * @param messages Messages of the ordered consumer
+   * @param watermark Sequence of the last message stored before connecting
+   * @param caughtUp Callback to invoke once all history has been indexed
+   */
+  async #listen(messages: ConsumerMessages, watermark: number, caughtUp: () => void) {
+    try {
+      for await (const message of messages) {
+        const update = message.json<Update>();
+        this.#lastSequence = message.seq;
+        this.#index.set(
+          update.id,
+          { sequence: message.seq },
+          Math.floor(message.info.timestampNanos / 1_000_000),
+        );
+
+        if (message.seq <= watermark) {
+          if (message.seq === watermark || message.info.pending === 0) {
+            caughtUp();
+          }
+
+          continue;
+        }
+
+        caughtUp();
+
+        // Events dispatched by this node have been delivered locally already
+        if (message.headers?.get("Mercure-Node") !== this.nodeId) {
+          this.#target.dispatchEvent(new MessageEvent("update", { data: update }));
+        }
+      }
+    } catch (error) {
+      Log.error(`Consuming updates failed: ${error.message}`, { error });
+    }
+  }
+
+  /**
+   * Wait for the consumer to catch up with the history.
+   *
+   * The last message stored before connecting may be removed by the retention
+   * policy before the consumer gets to it, so the stream is checked
+   * periodically, too: Once it is empty, or the consumer has seen its last
+   * message, there is nothing left to catch up with.
+   *
+   * @param caughtUp Promise resolving once the consumer has caught up
+   */
+  async #catchUp(caughtUp: Promise<void>) {
+    const jsm = await this.#connection.jetstreamManager();
+
+    while (true) {
+      let timer: number | undefined;
+      const due = new Promise<boolean>((resolve) => {
+        timer = setTimeout(() => resolve(false), catchUpCheckInterval);
+      });
+      const done = await Promise.race([caughtUp.then(() => true), due]);
+      clearTimeout(timer);
+
+      if (done) {
+        return;
+      }
+
+      const { state } = await jsm.streams.info(this.#stream);
+
+      if (state.messages === 0 || state.last_seq <= this.#lastSequence) {
+        return;
+      }
+    }
+  }
+
+  async #listenLifecycle(subscription: Subscription) {
+    for await (const message of subscription as AsyncIterable<Msg>) {
+      const type = message.headers?.get("Mercure-Type");
+
+      if (!type || message.headers?.get("Mercure-Node") === this.nodeId) {
+        continue;
+      }
+
+      this.#target.dispatchEvent(new CustomEvent(type, { detail: message.json() }));
+    }
+  }
+}
+
+/**
+ * Derive the subject to publish an update on from its canonical topic.
+ *
+ * Topics are usually URLs, which contain characters that are not allowed in
+ * subject tokens, such as dots. To keep the subject hierarchy intact, the
+ * topic is encoded as Base64URL, which only uses characters that are.
+ *
+ * @param subject Subject prefix
+ * @param topic Canonical topic of the update
+ */
+export function topicSubject(subject: string, topic: string) {
+  const bytes = new TextEncoder().encode(topic);
+  const token = btoa(String.fromCharCode(...bytes))
+    .replaceAll("+", "-")
+    .replaceAll("/", "_")
+    .replace(/=+$/, "");
+
+  return `${subject}.updates.${token}`;
+}
+
+async function findStream(jsm: JetStreamManager, name: string) {
+  try {
+    return await jsm.streams.info(name);
+  } catch (error) {
+    if (error.message === "stream not found") {
+      return undefined;
+    }
+
+    throw error;
+  }
+}
+
+/**
+ * Resolve the credentials to connect with from the transport URI: A user name
+ * and password, or a token given as the user name alone.
+ */
+function credentials({ username, password }: URL) {
+  if (!username) {
+    return {};
+  }
+
+  return password
+    ? { user: decodeURIComponent(username), pass: decodeURIComponent(password) }
+    : { token: decodeURIComponent(username) };
+}
+
+const defaultIndexSize = 100_000;
+
+/**
+ * Maximum number of messages to fetch at once when replaying history.
+ */
+const replayBatchSize = 1_000;
+
+/**
+ * Time to wait for a batch of messages when replaying history, in
+ * milliseconds. This is the minimum supported by the client.
+ */
+const replayBatchTimeout = 1_000;
+
+/**
+ * Interval to check the stream at while catching up with the history, in
+ * milliseconds.
+ */
+const catchUpCheckInterval = 1_000;
+
+const options = z.object({
+  stream: z
+    .string({ description: "Name of the stream to store updates in." })
+    .regex(/^[a-zA-Z0-9_-]+$/, "Must only contain letters, digits, dashes and underscores")
+    .default("mercure"),
+  subject: z
+    .string({ description: "Prefix of all subjects to publish events on." })
+    .regex(/^[a-zA-Z0-9_-]+(\.[a-zA-Z0-9_-]+)*$/, "Must be a valid subject without wildcards")
+    .default("mercure"),
+  servers: z
+    .string({ description: "Comma-separated list of additional servers to connect to." })
+    .transform((value) => value.split(",").map((server) => server.trim()).filter(Boolean))
+    .optional(),
+  replicas: z.coerce
+    .number({ description: "Number of replicas when creating the stream." })
+    .int()
+    .positive()
+    .default(1),
+  maxAge: durationOption("Maximum age of updates to keep, such as 30m or 24h.").optional(),
+  maxMsgs: z.coerce
+    .number({ description: "Maximum number of updates to keep." })
+    .int()
+    .positive()
+    .optional(),
+  maxBytes: sizeOption("Maximum size of all updates to keep, such as 1g.").optional(),
+  indexSize: z.coerce
+    .number({
+      description:
+        "Maximum number of update IDs to index for resuming history. Defaults to 100000.",
+    })
+    .int()
+    .positive()
+    .default(defaultIndexSize),
+}).strict();
+
+type NatsTransportOptions = z.output<typeof options>;
+
+type Position = {
+  sequence: number;
+};
+
+function isUpdateEvent(
+  event: EventMap[keyof EventMap],
+): event is MessageEvent<Update> {
+  return event.type === "update";
+}
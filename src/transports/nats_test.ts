@@ -0,0 +1,82 @@
+import { assertEquals, assertMatch } from "@std/assert";
+import { testTransportConformance } from "./_conformance.ts";
+import { parseTransportOptions } from "./mod.ts";
+import { NatsTransport, topicSubject } from "./nats.ts";
+
+/**
+ * URI of the NATS server to run the tests against, for example
+ * `nats://localhost:4222` for a local `nats-server -js`. The tests create
+ * their own streams.
+ */
+const uri = Deno.env.get("MERCURE_TEST_NATS_URI");
+
+testTransportConformance("NATS", {
+  createCluster: () => ({ uri: createClusterUri(), create: () => new NatsTransport() }),
+  shared: true,
+  indexing: true,
+  parsing: {
+    transport: new NatsTransport(),
+    uri: new URL("nats://localhost:4222"),
+    defaults: { stream: "mercure", subject: "mercure", replicas: 1, indexSize: 100_000 },
+    invalid: {
+      "stream=foo.bar": "stream",
+      "subject=foo.*": "subject",
+      "retention=1h": "retention",
+      "indexSize=0": "indexSize",
+    },
+  },
+  retention: { query: "maxMsgs=3", limit: 3 },
+  timeout: 5_000,
+  ignore: !uri,
+});
+
+Deno.test("NATS transport options", async (ctx) => {
+  const transport = new NatsTransport();
+  const parse = (query: string) =>
+    parseTransportOptions(transport, new URL(`nats://localhost:4222?${query}`));
+
+  await ctx.step("Parse retention", () => {
+    assertEquals(parse("maxAge=24h&maxMsgs=1000&maxBytes=512m"), {
+      stream: "mercure",
+      subject: "mercure",
+      replicas: 1,
+      maxAge: 86_400_000,
+      maxMsgs: 1_000,
+      maxBytes: 536_870_912,
+      indexSize: 100_000,
+    });
+  });
+
+  await ctx.step("Parse additional servers", () => {
+    assertEquals(parse("servers=a:4222, b:4222").servers, ["a:4222", "b:4222"]);
+  });
+});
+
+Deno.test("NATS update subjects", async (ctx) => {
+  await ctx.step("Encode the topic as a single subject token", () => {
+    assertEquals(
+      topicSubject("mercure", "https://example.com/foo?bar=1"),
+      "mercure.updates.aHR0cHM6Ly9leGFtcGxlLmNvbS9mb28_YmFyPTE",
+    );
+  });
+
+  await ctx.step("Only use characters allowed in subjects", () => {
+    assertMatch(
+      topicSubject("mercure", "https://example.com/ü/>/*"),
+      /^mercure\.updates\.[a-zA-Z0-9_-]+$/,
+    );
+  });
+});
+
+/**
+ * Create the URI of a scratch stream and subject for a single test.
+ */
+function createClusterUri() {
+  const suffix = crypto.randomUUID().slice(0, 8);
+  const url = new URL(uri!);
+
+  url.searchParams.set("stream", `mercure_test_${suffix}`);
+  url.searchParams.set("subject", `mercure_test_${suffix}`);
+
+  return url;
+}
@@ -1,51 +1,200 @@
-import { connect, type Redis } from "redis";
+import { connect, type Redis, type XId } from "redis";
+import { z } from "zod";
 import { earliestEventId } from "../hub.ts";
 import { generateId, type Update } from "../updates.ts";
-import type { EventMap, MessageEventListener, Transport } from "./mod.ts";
+import { UnknownEventIdError } from "./_errors.ts";
+import { durationOption, type EventMap, type MessageEventListener, type Transport } from "./mod.ts";
+import { ConnectionSupervisor, Outbox } from "./supervisor.ts";
 import * as Log from "@std/log";
 
-export class RedisTransport implements Transport<"redis:"> {
+/**
+ * Number of stream entries to fetch per round trip when replaying history.
+ */
+const replayPageSize = 500;
+
+/**
+ * Streams carrying lifecycle events, as opposed to the update stream.
+ */
+const lifecycleStreams = ["connect", "disconnect", "subscribe", "unsubscribe"];
+
+/**
+ * Default retention of lifecycle streams. Lifecycle events are never replayed,
+ * so there is no point in keeping more than a small backlog for nodes that
+ * lag behind.
+ */
+const defaultLifecycleRetention: Retention = { maxlen: 1_000, maxAge: Infinity };
+
+/**
+ * Default number of events to keep while disconnected from Redis.
+ */
+const defaultOutboxSize = 10_000;
+
+/**
+ * A transport type that distributes events via Redis streams.
+ *
+ * Every event is dispatched to local listeners immediately, and appended to the
+ * stream matching its type, so other hub nodes connected to the same Redis
+ * instance receive it, too. To tell local events apart from remote ones, each
+ * transport instance stamps its node ID on the stream entries it adds, and
+ * skips those entries when reading the streams.
+ *
+ * Streams are trimmed whenever an entry is added. Retention may be configured
+ * separately for the update stream and the lifecycle streams, using the query
+ * parameters of the transport URI, for example:
+ * `redis://localhost:6379?maxlen=100000&maxAge=24h`.
+ * Trimming is approximate, so Redis may keep slightly more entries than
+ * configured, in exchange for a lot less work.
+ *
+ * If the connection to Redis is lost, the transport reconnects using an
+ * exponential backoff, and resumes reading the streams after the last entries
+ * it has seen. Events dispatched in the meantime are kept in a bounded outbox,
+ * and written once reconnected. As an event may have been written partially
+ * when the connection was lost, events are written at least once.
+ */
+export class RedisTransport implements Transport<"redis:", RedisTransportOptions> {
   public readonly protocol = "redis:";
-  #_connection: Redis | undefined;
+  public readonly options = options;
+
+  /**
+   * Unique identifier of this hub node.
+   */
+  public readonly nodeId: string;
+
+  #_supervisor: ConnectionSupervisor<Connections> | undefined;
   #_subscription: StreamSubscription | undefined;
   #target = new EventTarget();
+  #outbox = new Outbox<Entry>(defaultOutboxSize, (entry) => this.#write(entry));
+  readonly #connector: Connector;
+  #prefix = "";
+  #retention: Record<"update" | "lifecycle", Retention> = {
+    update: { maxlen: Infinity, maxAge: Infinity },
+    lifecycle: defaultLifecycleRetention,
+  };
 
+  /**
+   * Create a new Redis transport.
+   *
+   * @param limit The maximum number of updates to store, unless overridden
+   *              by the `maxlen` parameter of the transport URI
+   * @param readTimeout Time to block while waiting for new stream entries, in
+   *                    milliseconds
+   * @param connector Function used to establish connections to Redis
+   * @param nodeId Unique identifier of this hub node
+   */
   constructor(
     public readonly limit = Infinity,
     public readonly readTimeout = 5_000,
-  ) {}
+    connector: Connector = connect,
+    nodeId: string = generateId(),
+  ) {
+    this.#connector = connector;
+    this.nodeId = nodeId;
+  }
+
+  async connect(
+    uri: URL,
+    _enableSubscriptionEvents: boolean,
+    {
+      readTimeout = this.readTimeout,
+      stream,
+      maxlen = this.limit,
+      maxAge = Infinity,
+      lifecycleMaxlen = defaultLifecycleRetention.maxlen,
+      lifecycleMaxAge = defaultLifecycleRetention.maxAge,
+      outboxSize = defaultOutboxSize,
+      maxReconnectDelay,
+    }: RedisTransportOptions,
+  ) {
+    this.#prefix = stream ? `${stream}:` : "";
+    this.#retention = {
+      update: { maxlen, maxAge },
+      lifecycle: { maxlen: lifecycleMaxlen, maxAge: lifecycleMaxAge },
+    };
+    this.#outbox = new Outbox(outboxSize, (entry) => this.#write(entry));
+    this.#_supervisor = new ConnectionSupervisor(
+      "Redis",
+      () => this.#open(uri),
+      ({ commands, reads }) => {
+        commands.close();
+        reads.close();
+      },
+      { maxDelay: maxReconnectDelay },
+    );
+
+    // Write the events dispatched while we were disconnected
+    this.#supervisor.addEventListener("statuschange", () => void this.#flush());
 
-  async connect(uri: URL, _enableSubscriptionEvents: boolean) {
-    this.#_connection = await connect(uri);
+    await this.#supervisor.connect();
     this.#_subscription = new StreamSubscription(
-      await connect(uri),
-      ["update", "connect", "disconnect", "subscribe", "unsubscribe"],
-      this.readTimeout,
+      ["update", ...lifecycleStreams].map((type) => this.#prefix + type),
+      readTimeout,
     );
+    await this.#subscription.seek(this.#connection);
 
     void this.#listen();
   }
 
-  close() {
-    this.#connection.close();
-    this.#subscription.close();
+  async close() {
+    await this.#flush();
+
+    if (this.#outbox.size > 0) {
+      Log.warn(`Closing with ${this.#outbox.size} events that have not been written to Redis`);
+    }
+
+    this.#supervisor.close();
   }
 
-  async *eventsAfter(lastEventId: string) {
-    const [{ messages }] = await this.#connection.xread(
-      [{ key: "update", xid: "$" }],
-      { block: 0 },
-    );
-    let next = lastEventId === earliestEventId;
+  /**
+   * Whether the transport is connected to Redis right now.
+   */
+  get status() {
+    return this.#_supervisor?.status ?? "connecting";
+  }
+
+  /**
+   * Replay all updates after the given event ID.
+   *
+   * Redis streams are ordered by their entry IDs, which are assigned by Redis
+   * and unrelated to the update IDs. To resume from an update ID, we look up
+   * the entry ID recorded for it during dispatch, and read the stream in pages
+   * starting right after that entry.
+   * If the update ID is unknown, for example because it has been trimmed from
+   * the stream already, an {@link UnknownEventIdError} is thrown.
+   *
+   * @param lastEventId ID of the last update received by the client
+   */
+  async *eventsAfter(lastEventId = earliestEventId) {
+    let start: string;
+
+    if (lastEventId === earliestEventId) {
+      start = "-";
+    } else {
+      const entryId = await this.#findEntry(lastEventId);
+
+      if (!entryId) {
+        throw new UnknownEventIdError(lastEventId);
+      }
+
+      start = nextEntryId(entryId);
+    }
+
+    while (true) {
+      const messages = await this.#connection.xrange(
+        this.#prefix + "update",
+        start,
+        "+",
+        replayPageSize,
+      );
 
-    for (const { fieldValues: { payload, id } } of messages) {
-      if (next) {
-        yield this.#hydrate({ payload, id });
+      for (const { fieldValues } of messages) {
+        yield this.#hydrate(fieldValues);
       }
 
-      if (id === lastEventId) {
-        next = true;
+      if (messages.length < replayPageSize) {
+        return;
       }
+
+      start = nextEntryId(messages[messages.length - 1].xid);
     }
   }
 
@@ -76,20 +225,54 @@ export class RedisTransport implements Transport<"redis:"> {
     const payload = isUpdateEvent(event) ? event.data : event.detail;
     const message = this.#serialize(payload);
 
-    void this.#dispatch(type, message);
+    // Fan the event out to other hub nodes, and deliver it to local
+    // listeners right away, without waiting for the round trip to Redis.
+    // Events pass through the outbox, so they are written in order, and
+    // survive losing the connection.
+    this.#outbox.push({ type, message });
+    void this.#flush();
 
-    return true;
+    return this.#target.dispatchEvent(event);
+  }
+
+  /**
+   * Publish an update, and resolve once it has been written to Redis.
+   *
+   * Other than dispatched events, published updates are not kept in the
+   * outbox while disconnected: The publisher is told right away, and may try
+   * again later.
+   *
+   * @param update Update to publish
+   * @param signal Signal to abort waiting for the update to be written
+   */
+  async publish(update: Update, signal?: AbortSignal) {
+    if (this.status !== "connected") {
+      throw new Error(`Not connected to Redis (${this.status})`);
+    }
+
+    const written = this.#outbox.write(
+      { type: "update", message: this.#serialize(update) },
+      signal,
+    );
+    void this.#flush();
+    await written;
+
+    this.#target.dispatchEvent(new MessageEvent("update", { data: update }));
   }
 
   get #connection() {
-    if (!this.#_connection) {
+    return this.#supervisor.connection.commands;
+  }
+
+  get #supervisor() {
+    if (!this.#_supervisor) {
       throw new Error(
         "Unexpected state: Not connected. A connection should have " +
           "been established before attempting to use it.",
       );
     }
 
-    return this.#_connection;
+    return this.#_supervisor;
   }
 
   get #subscription() {
@@ -103,28 +286,202 @@ export class RedisTransport implements Transport<"redis:"> {
     return this.#_subscription;
   }
 
-  async #dispatch(type: string, message: Record<string, string>) {
+  /**
+   * Open the connections used to send commands, and to read the streams. The
+   * latter blocks while waiting for new entries, so it can't be shared.
+   */
+  async #open(uri: URL): Promise<Connections> {
+    const commands = await this.#connector(uri);
+
     try {
-      await this.#connection.xadd(type, "*", message);
+      return { commands, reads: await this.#connector(uri) };
     } catch (error) {
-      Log.error(`Update dispatch failed: ${error.message}`, { error });
+      commands.close();
+
+      throw error;
+    }
+  }
+
+  /**
+   * Write all events in the outbox to Redis. If that fails, the connection is
+   * considered lost; the outbox is flushed again once reconnected.
+   */
+  async #flush() {
+    const supervisor = this.#_supervisor;
+
+    if (supervisor?.status !== "connected") {
+      return;
+    }
+
+    const connections = supervisor.connection;
+
+    try {
+      await this.#outbox.flush();
+    } catch (error) {
+      Log.error(`Event dispatch failed: ${error.message}`, { error });
+      await supervisor.lost(connections, error);
+    }
+  }
+
+  async #write({ type, message }: Entry) {
+    if (type !== "update") {
+      await this.#append(this.#prefix + type, message, this.#retention.lifecycle);
+
+      return;
     }
+
+    const entryId = await this.#append(this.#prefix + type, message, this.#retention.update);
+
+    await this.#indexUpdate(message.id, entryId);
+  }
+
+  /**
+   * Record the stream entry ID of an update, so we can resume replaying
+   * history from its update ID later on.
+   *
+   * The index consists of a hash mapping update IDs to entry IDs, and a sorted
+   * set of the update IDs, scored by the time of their entries. Once the update
+   * stream has been trimmed, all index entries older than its first entry are
+   * removed, so the index never outgrows the stream. A reused update ID simply
+   * points to its latest entry.
+   *
+   * @param updateId ID of the update
+   * @param entryId ID of the stream entry carrying the update
+   */
+  async #indexUpdate(updateId: string, entryId: string) {
+    const index = this.#prefix + "update:index";
+    const order = this.#prefix + "update:order";
+
+    await this.#connection.sendCommand("HSET", [index, updateId, entryId]);
+    await this.#connection.sendCommand("ZADD", [order, parseInt(entryId), updateId]);
+
+    const { maxlen, maxAge } = this.#retention.update;
+
+    if (!Number.isFinite(maxlen) && !Number.isFinite(maxAge)) {
+      return;
+    }
+
+    const [first] = await this.#connection.xrange(this.#prefix + "update", "-", "+", 1);
+
+    if (!first) {
+      return;
+    }
+
+    const threshold = `(${first.xid.unixMs}`;
+    const trimmed = await this.#connection.sendCommand("ZRANGEBYSCORE", [
+      order,
+      "-inf",
+      threshold,
+    ]) as string[];
+
+    if (trimmed.length > 0) {
+      await this.#connection.sendCommand("HDEL", [index, ...trimmed]);
+      await this.#connection.sendCommand("ZREMRANGEBYSCORE", [order, "-inf", threshold]);
+    }
+  }
+
+  /**
+   * Append an entry to a stream, trimming it according to the retention.
+   *
+   * A single XADD can only apply one trimming strategy, so if both limits are
+   * configured, the stream is trimmed by age while adding the entry, and by
+   * length in a separate XTRIM command.
+   *
+   * @param stream Name of the stream
+   * @param message Fields of the stream entry
+   * @param retention Retention to apply to the stream
+   * @returns The ID of the new stream entry
+   */
+  async #append(stream: string, message: Record<string, string>, retention: Retention) {
+    const { maxlen, maxAge } = retention;
+    const trim = Number.isFinite(maxAge)
+      ? ["MINID", "~", `${Date.now() - maxAge}-0`]
+      : Number.isFinite(maxlen)
+      ? ["MAXLEN", "~", maxlen]
+      : [];
+    const entryId = await this.#connection.sendCommand("XADD", [
+      stream,
+      ...trim,
+      "*",
+      ...Object.entries(message).flat(),
+    ]);
+
+    if (Number.isFinite(maxAge) && Number.isFinite(maxlen)) {
+      await this.#connection.sendCommand("XTRIM", [stream, "MAXLEN", "~", maxlen]);
+    }
+
+    return String(entryId);
   }
 
   async #listen() {
+    let connections: Connections | undefined;
+
+    // Keep reading the streams until the transport is closed. If the
+    // connection is lost, wait for the supervisor to reconnect, and resume
+    // reading after the last entries we've seen.
+    while ((connections = await this.#supervisor.ready)) {
+      let cause = new Error("Connection closed");
+
+      try {
+        await this.#read(connections.reads);
+      } catch (error) {
+        cause = error;
+      }
+
+      await this.#supervisor.lost(connections, cause);
+    }
+  }
+
+  async #read(connection: Redis) {
     // Iterate the subscription stream. It yields for every new message on
-    // one of the subscribed channels, so we can just dispatch every message
-    // we receive as an event on the target.
-    for await (const { type, payload } of this.#subscription) {
+    // one of the subscribed channels, so we can dispatch every message we
+    // receive as an event on the target. Messages published by this node
+    // have been dispatched locally already, so we skip them here.
+    // Remote events must only reach local listeners: Passing them to our
+    // own dispatchEvent method would append them to the stream again.
+    for await (const { key, payload } of this.#subscription.messages(connection)) {
+      if (payload.node === this.nodeId) {
+        continue;
+      }
+
+      const type = key.slice(this.#prefix.length);
       const data = this.#hydrate(payload);
       const event = type === "update"
         ? new MessageEvent(type, { data })
         : new CustomEvent(type, { detail: data });
 
-      this.dispatchEvent(event);
+      this.#target.dispatchEvent(event);
     }
   }
 
+  /**
+   * Find the stream entry of an update using the index. Entries sharing their
+   * time with the first remaining stream entry are kept in the index, and may
+   * refer to trimmed stream entries, so the entry is checked to still exist.
+   *
+   * @param updateId ID of the update
+   * @returns The ID of the stream entry, or `undefined` if there is none
+   */
+  async #findEntry(updateId: string) {
+    const entryId = await this.#connection.sendCommand("HGET", [
+      this.#prefix + "update:index",
+      updateId,
+    ]);
+
+    if (typeof entryId !== "string") {
+      return undefined;
+    }
+
+    const [entry] = await this.#connection.xrange(
+      this.#prefix + "update",
+      entryId,
+      entryId,
+      1,
+    );
+
+    return entry ? entryId : undefined;
+  }
+
   #hydrate({ payload }: Record<string, string>) {
     return JSON.parse(payload);
   }
@@ -132,33 +489,51 @@ export class RedisTransport implements Transport<"redis:"> {
   #serialize(payload: Record<string, unknown>) {
     return {
       id: typeof payload.id === "string" ? payload.id : generateId(),
+      node: this.nodeId,
       payload: JSON.stringify(payload),
     };
   }
 }
 
+/**
+ * Reads new entries from a set of streams.
+ *
+ * The subscription keeps track of the last entry read from every stream, so it
+ * can resume reading right after them on a new connection.
+ */
 class StreamSubscription {
   public readonly streams: string[];
   readonly #readTimeout: number;
-  readonly #connection: Redis;
   readonly #lastIds: Record<string, "$" | `${number}-${number}`>;
 
-  public constructor(connection: Redis, streams: string[], readTimeout = 0) {
-    this.#connection = connection;
+  public constructor(streams: string[], readTimeout = 0) {
     this.#readTimeout = readTimeout;
     this.streams = streams;
     this.#lastIds = Object.fromEntries(streams.map((key) => [key, "$"]));
   }
 
-  public close() {
-    this.#connection.close();
+  /**
+   * Start reading after the current last entry of every stream.
+   *
+   * Reading from "$" only yields entries added after the read started, so
+   * entries added while reconnecting would be skipped. Instead, the last entry
+   * IDs are resolved once, up front.
+   *
+   * @param connection Connection to resolve the last entries with
+   */
+  async seek(connection: Redis) {
+    for (const key of this.streams) {
+      const [last] = await connection.xrevrange(key, "+", "-", 1);
+
+      this.#lastIds[key] = last ? formatEntryId(last.xid) as `${number}-${number}` : "0-0";
+    }
   }
 
-  async *messages() {
+  async *messages(connection: Redis) {
     // By running the loop until the connection is closed, we can keep
     // listening for new messages on the streams we're subscribed to.
-    while (!this.#connection.isClosed) {
-      const streams = await this.#connection.xread(
+    while (!connection.isClosed) {
+      const streams = await connection.xread(
         this.streams.map((key) => ({
           xid: this.#lastIds[key],
           key,
@@ -168,19 +543,116 @@ class StreamSubscription {
 
       for (const { key, messages } of streams) {
         for (const { fieldValues, xid } of messages) {
-          this.#lastIds[key] = `${xid.unixMs}-${xid.seqNo}`;
+          this.#lastIds[key] = formatEntryId(xid) as `${number}-${number}`;
 
-          yield { type: key, payload: fieldValues };
+          yield { key, payload: fieldValues };
         }
       }
     }
   }
+}
 
-  [Symbol.asyncIterator]() {
-    return this.messages();
-  }
+/**
+ * Format a stream entry ID as a string.
+ *
+ * @param id Stream entry ID
+ */
+function formatEntryId({ unixMs, seqNo }: XId) {
+  return `${unixMs}-${seqNo}`;
+}
+
+/**
+ * Resolve the smallest possible stream entry ID following the given one.
+ *
+ * This allows to read a range of entries excluding the start entry, without
+ * relying on the exclusive range syntax only available since Redis 6.2.
+ *
+ * @param id Stream entry ID
+ */
+function nextEntryId(id: XId | string) {
+  const [unixMs, seqNo] = typeof id === "string"
+    ? id.split("-", 2).map(Number)
+    : [id.unixMs, id.seqNo];
+
+  return `${unixMs}-${seqNo + 1}`;
 }
 
+type Retention = {
+  /**
+   * Maximum number of entries to keep in the stream.
+   */
+  maxlen: number;
+
+  /**
+   * Maximum age of entries to keep in the stream, in milliseconds.
+   */
+  maxAge: number;
+};
+
+const options = z.object({
+  readTimeout: z.coerce
+    .number({
+      description: "Time to block while waiting for new stream entries, in milliseconds.",
+    })
+    .int()
+    .nonnegative()
+    .optional(),
+  stream: z
+    .string({
+      description: "Prefix for the names of all streams and keys, to allow multiple hubs " +
+        "to share a Redis database.",
+    })
+    .regex(/^[^\s]+$/, "Must not contain whitespace")
+    .optional(),
+  maxlen: z.coerce
+    .number({ description: "Maximum number of updates to keep." })
+    .int()
+    .nonnegative()
+    .optional(),
+  maxAge: durationOption("Maximum age of updates to keep, such as 30m or 24h.").optional(),
+  lifecycleMaxlen: z.coerce
+    .number({ description: "Maximum number of lifecycle events to keep." })
+    .int()
+    .nonnegative()
+    .optional(),
+  lifecycleMaxAge: durationOption("Maximum age of lifecycle events to keep, such as 30m.")
+    .optional(),
+  outboxSize: z.coerce
+    .number({
+      description: "Maximum number of events to keep while disconnected from Redis.",
+    })
+    .int()
+    .positive()
+    .optional(),
+  maxReconnectDelay: durationOption(
+    "Maximum delay between attempts to reconnect to Redis, such as 30s.",
+  ).optional(),
+}).strict();
+
+type RedisTransportOptions = z.output<typeof options>;
+
+type Connector = (uri: URL) => Promise<Redis>;
+
+type Connections = {
+  /**
+   * Connection used to send commands.
+   */
+  commands: Redis;
+
+  /**
+   * Connection used to read the streams.
+   */
+  reads: Redis;
+};
+
+/**
+ * An event waiting in the outbox to be written to its stream.
+ */
+type Entry = {
+  type: string;
+  message: Record<string, string>;
+};
+
 function isUpdateEvent(
   event: EventMap[keyof EventMap],
 ): event is MessageEvent<Update> {
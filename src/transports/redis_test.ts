@@ -0,0 +1,845 @@
+import { assertEquals, assertRejects } from "@std/assert";
+import type { Redis, XId, XMessage, XReadStream } from "redis";
+import { ZodError } from "zod";
+import { earliestEventId } from "../hub.ts";
+import { createUpdate, delay, waitFor } from "../test_utilities.ts";
+import type { Update } from "../updates.ts";
+import { testTransportConformance } from "./_conformance.ts";
+import { connectTransport, UnknownEventIdError } from "./mod.ts";
+import { RedisTransport } from "./redis.ts";
+
+const uri = new URL("redis://localhost:6379");
+
+testTransportConformance("Redis", {
+  createCluster() {
+    const server = new RedisStandIn();
+
+    return {
+      uri,
+      create: () => new RedisTransport(Infinity, 10, () => Promise.resolve(server.connect())),
+    };
+  },
+  shared: true,
+  retention: { query: "maxlen=3", limit: 3 },
+});
+
+Deno.test("Redis transport history replay", async (ctx) => {
+  await ctx.step("Replay all updates from the earliest event", async () => {
+    const server = new RedisStandIn();
+    await seed(server, "first", "second", "third");
+    const transport = await connect(server);
+
+    const updates = await Array.fromAsync(transport.eventsAfter(earliestEventId));
+    transport.close();
+
+    assertEquals(updates.map(({ id }) => id), ["first", "second", "third"]);
+  });
+
+  await ctx.step("Replay updates after a known event", async () => {
+    const server = new RedisStandIn();
+    await seed(server, "first", "second", "third");
+    const transport = await connect(server);
+
+    const updates = await Array.fromAsync(transport.eventsAfter("first"));
+    transport.close();
+
+    assertEquals(updates.map(({ id }) => id), ["second", "third"]);
+  });
+
+  await ctx.step("Replay nothing after the latest event", async () => {
+    const server = new RedisStandIn();
+    await seed(server, "first", "second");
+    const transport = await connect(server);
+
+    const updates = await Array.fromAsync(transport.eventsAfter("second"));
+    transport.close();
+
+    assertEquals(updates, []);
+  });
+
+  await ctx.step("Reject unknown events", async () => {
+    const server = new RedisStandIn();
+    await seed(server, "first", "second");
+    const transport = await connect(server);
+
+    await assertRejects(
+      () => Array.fromAsync(transport.eventsAfter("unknown")),
+      UnknownEventIdError,
+    );
+    transport.close();
+  });
+
+  await ctx.step("Replay histories spanning multiple pages", async () => {
+    const server = new RedisStandIn();
+    const seeded = ids(1_234);
+    await seed(server, ...seeded);
+    const transport = await connect(server);
+
+    const all = await Array.fromAsync(transport.eventsAfter(earliestEventId));
+    const after = await Array.fromAsync(transport.eventsAfter("update-42"));
+    transport.close();
+
+    assertEquals(all.map(({ id }) => id), seeded);
+    assertEquals(after.map(({ id }) => id), seeded.slice(43));
+  });
+});
+
+Deno.test("Redis transport clustering", async (ctx) => {
+  await ctx.step("Deliver local events to local listeners exactly once", async () => {
+    const server = new RedisStandIn();
+    const transport = await connect(server);
+    const received: Update[] = [];
+    transport.addEventListener("update", ({ data }) => received.push(data));
+
+    transport.dispatchEvent(new MessageEvent("update", { data: createUpdate("first") }));
+    await waitFor(() => server.streams.get("update")?.length === 1);
+
+    // Give the transport a few read cycles to pick up its own entry
+    await delay(50);
+    transport.close();
+
+    assertEquals(received.map(({ id }) => id), ["first"]);
+    assertEquals(server.streams.get("update")?.length, 1);
+  });
+
+  await ctx.step("Deliver events to other nodes exactly once", async () => {
+    const server = new RedisStandIn();
+    const publisher = await connect(server);
+    const subscriber = await connect(server);
+    const received: Update[] = [];
+    subscriber.addEventListener("update", ({ data }) => received.push(data));
+
+    publisher.dispatchEvent(new MessageEvent("update", { data: createUpdate("first") }));
+    publisher.dispatchEvent(new MessageEvent("update", { data: createUpdate("second") }));
+    await waitFor(() => received.length === 2);
+    await delay(50);
+    publisher.close();
+    subscriber.close();
+
+    assertEquals(received.map(({ id }) => id), ["first", "second"]);
+    assertEquals(server.streams.get("update")?.length, 2);
+  });
+
+  await ctx.step("Deliver lifecycle events to other nodes", async () => {
+    const server = new RedisStandIn();
+    const publisher = await connect(server);
+    const subscriber = await connect(server);
+    const received: unknown[] = [];
+    subscriber.addEventListener("connect", ({ detail }) => received.push(detail));
+
+    publisher.dispatchEvent(
+      new CustomEvent("connect", { detail: { subscriber: { id: "foo" } } }) as CustomEvent,
+    );
+    await waitFor(() => received.length === 1);
+    publisher.close();
+    subscriber.close();
+
+    assertEquals(received, [{ subscriber: { id: "foo" } }]);
+  });
+
+  await ctx.step("Stamp the node ID on stream entries", async () => {
+    const server = new RedisStandIn();
+    const transport = await connect(server);
+
+    transport.dispatchEvent(new MessageEvent("update", { data: createUpdate("first") }));
+    await waitFor(() => server.streams.get("update")?.length === 1);
+    transport.close();
+
+    const [{ fieldValues }] = server.streams.get("update")!;
+    assertEquals(fieldValues.node, transport.nodeId);
+  });
+
+  await ctx.step("Replay updates dispatched by another node", async () => {
+    const server = new RedisStandIn();
+    const publisher = await connect(server);
+    const subscriber = await connect(server);
+
+    publisher.dispatchEvent(new MessageEvent("update", { data: createUpdate("first") }));
+    publisher.dispatchEvent(new MessageEvent("update", { data: createUpdate("second") }));
+    publisher.dispatchEvent(new MessageEvent("update", { data: createUpdate("third") }));
+    await waitFor(() => server.indexed("update:index", "third"));
+
+    const updates = await Array.fromAsync(subscriber.eventsAfter("first"));
+    publisher.close();
+    subscriber.close();
+
+    assertEquals(updates.map(({ id }) => id), ["second", "third"]);
+  });
+});
+
+Deno.test("Redis transport retention", async (ctx) => {
+  await ctx.step("Keep all updates by default", async () => {
+    const server = new RedisStandIn();
+    const transport = await connect(server);
+
+    await dispatch(server, transport, ...ids(10));
+    transport.close();
+
+    assertEquals(server.streams.get("update")?.length, 10);
+  });
+
+  await ctx.step("Trim the update stream by length", async () => {
+    const server = new RedisStandIn();
+    const transport = await connect(server, "maxlen=3");
+
+    await dispatch(server, transport, ...ids(10));
+    transport.close();
+
+    assertEquals(
+      server.streams.get("update")?.map(({ fieldValues }) => fieldValues.id),
+      ["update-7", "update-8", "update-9"],
+    );
+  });
+
+  await ctx.step("Use the limit as the default length", async () => {
+    const server = new RedisStandIn();
+    const transport = await connect(server, "", 5);
+
+    await dispatch(server, transport, ...ids(10));
+    transport.close();
+
+    assertEquals(server.streams.get("update")?.length, 5);
+  });
+
+  await ctx.step("Trim the update stream by age", async () => {
+    const server = new RedisStandIn();
+    server.append("update", { id: "expired" }, Date.now() - 3_600_000);
+    server.append("update", { id: "recent" }, Date.now() - 60_000);
+    const transport = await connect(server, "maxAge=30m");
+
+    await dispatch(server, transport, "current");
+    transport.close();
+
+    assertEquals(
+      server.streams.get("update")?.map(({ fieldValues }) => fieldValues.id),
+      ["recent", "current"],
+    );
+  });
+
+  await ctx.step("Trim the update stream by length and age", async () => {
+    const server = new RedisStandIn();
+    server.append("update", { id: "expired" }, Date.now() - 3_600_000);
+    const transport = await connect(server, "maxlen=2&maxAge=30m");
+
+    await dispatch(server, transport, ...ids(3));
+    transport.close();
+
+    assertEquals(
+      server.streams.get("update")?.map(({ fieldValues }) => fieldValues.id),
+      ["update-1", "update-2"],
+    );
+  });
+
+  await ctx.step("Reject updates trimmed by length", async () => {
+    const server = new RedisStandIn();
+    const transport = await connect(server, "maxlen=3");
+
+    await dispatch(server, transport, ...ids(5));
+    await assertRejects(
+      () => Array.fromAsync(transport.eventsAfter("update-0")),
+      UnknownEventIdError,
+    );
+    transport.close();
+  });
+
+  await ctx.step("Trim the index along with the update stream", async () => {
+    const server = new RedisStandIn();
+    const transport = await connect(server, "maxlen=3");
+
+    await dispatch(server, transport, ...ids(5));
+    await delay(5);
+    await dispatch(server, transport, "update-5", "update-6", "update-7");
+    transport.close();
+
+    assertEquals(
+      [...server.hashes.get("update:index")?.keys() ?? []],
+      ["update-5", "update-6", "update-7"],
+    );
+    assertEquals(
+      [...server.sortedSets.get("update:order")?.keys() ?? []],
+      ["update-5", "update-6", "update-7"],
+    );
+  });
+
+  await ctx.step("Resume from the latest update with a reused ID", async () => {
+    const server = new RedisStandIn();
+    const transport = await connect(server);
+
+    await dispatch(server, transport, "first", "second", "first", "third");
+    const updates = await Array.fromAsync(transport.eventsAfter("first"));
+    transport.close();
+
+    assertEquals(updates.map(({ id }) => id), ["third"]);
+  });
+
+  await ctx.step("Trim lifecycle streams separately", async () => {
+    const server = new RedisStandIn();
+    const transport = await connect(server, "maxlen=10&lifecycleMaxlen=2");
+
+    for (const id of ids(5)) {
+      transport.dispatchEvent(
+        new CustomEvent("connect", { detail: { subscriber: { id } } }) as CustomEvent,
+      );
+    }
+
+    await dispatch(server, transport, ...ids(5));
+    transport.close();
+
+    assertEquals(server.streams.get("connect")?.length, 2);
+    assertEquals(server.streams.get("update")?.length, 5);
+  });
+
+  await ctx.step("Reject invalid retention parameters", async () => {
+    const server = new RedisStandIn();
+
+    await assertRejects(() => connect(server, "maxlen=many"), ZodError, "maxlen");
+    await assertRejects(() => connect(server, "maxAge=1y"), ZodError, "maxAge");
+    await assertRejects(
+      () => connect(server, "lifecycleMaxAge=-1h"),
+      ZodError,
+      "lifecycleMaxAge",
+    );
+  });
+});
+
+Deno.test("Redis transport reconnection", async (ctx) => {
+  await ctx.step("Reconnect after losing the connection", async () => {
+    const server = new RedisStandIn();
+    const publisher = await connect(server, "maxReconnectDelay=10ms");
+    const subscriber = await connect(server, "maxReconnectDelay=10ms");
+    const received: Update[] = [];
+    subscriber.addEventListener("update", ({ data }) => received.push(data));
+
+    server.stop();
+    await waitFor(() =>
+      publisher.status === "reconnecting" && subscriber.status === "reconnecting"
+    );
+    server.start();
+    await waitFor(() => publisher.status === "connected" && subscriber.status === "connected");
+
+    await dispatch(server, publisher, "first");
+    await waitFor(() => received.length === 1);
+    await publisher.close();
+    await subscriber.close();
+
+    assertEquals(received.map(({ id }) => id), ["first"]);
+  });
+
+  await ctx.step("Report the connection status", async () => {
+    const server = new RedisStandIn();
+    const transport = await connect(server, "maxReconnectDelay=10ms");
+    const connected = transport.status;
+
+    server.stop();
+    await waitFor(() => transport.status === "reconnecting");
+    server.start();
+    await waitFor(() => transport.status === "connected");
+    await transport.close();
+
+    assertEquals(connected, "connected");
+    assertEquals(transport.status, "closed");
+  });
+
+  await ctx.step("Write events dispatched while disconnected", async () => {
+    const server = new RedisStandIn();
+    const transport = await connect(server, "maxReconnectDelay=10ms");
+    const received: Update[] = [];
+    transport.addEventListener("update", ({ data }) => received.push(data));
+
+    server.stop();
+    transport.dispatchEvent(new MessageEvent("update", { data: createUpdate("first") }));
+    transport.dispatchEvent(new MessageEvent("update", { data: createUpdate("second") }));
+    await delay(50);
+    const lost = server.streams.get("update")?.length ?? 0;
+    server.start();
+
+    await waitFor(() => server.has("update", "second"));
+    await transport.close();
+
+    assertEquals(lost, 0);
+    assertEquals(received.map(({ id }) => id), ["first", "second"]);
+    assertEquals(
+      server.streams.get("update")?.map(({ fieldValues }) => fieldValues.id),
+      ["first", "second"],
+    );
+  });
+
+  await ctx.step("Drop the oldest events if the outbox is full", async () => {
+    const server = new RedisStandIn();
+    const transport = await connect(server, "maxReconnectDelay=10ms&outboxSize=2");
+
+    server.stop();
+
+    for (const id of ids(5)) {
+      transport.dispatchEvent(new MessageEvent("update", { data: createUpdate(id) }));
+    }
+
+    server.start();
+    await waitFor(() => server.has("update", "update-4"));
+    await transport.close();
+
+    assertEquals(
+      server.streams.get("update")?.map(({ fieldValues }) => fieldValues.id),
+      ["update-3", "update-4"],
+    );
+  });
+
+  await ctx.step("Resume reading after the last entries seen", async () => {
+    const server = new RedisStandIn();
+    const subscriber = await connect(server, "maxReconnectDelay=10ms");
+    const received: Update[] = [];
+    subscriber.addEventListener("update", ({ data }) => received.push(data));
+    await seed(server, "first");
+    await waitFor(() => received.length === 1);
+
+    // Entries added by other nodes during the outage must not be skipped
+    server.stop();
+    server.start();
+    await seed(server, "second", "third");
+    await waitFor(() => received.length === 3);
+    await subscriber.close();
+
+    assertEquals(received.map(({ id }) => id), ["first", "second", "third"]);
+  });
+
+  await ctx.step("Reject publications while disconnected", async () => {
+    const server = new RedisStandIn();
+    const transport = await connect(server, "maxReconnectDelay=10ms");
+    const received: Update[] = [];
+    transport.addEventListener("update", ({ data }) => received.push(data));
+
+    server.stop();
+    await waitFor(() => transport.status === "reconnecting");
+    await assertRejects(() => transport.publish(createUpdate("first")), Error, "Not connected");
+    server.start();
+    await waitFor(() => transport.status === "connected");
+    await transport.close();
+
+    assertEquals(received, []);
+    assertEquals(server.streams.get("update")?.length ?? 0, 0);
+  });
+
+  await ctx.step("Reject publications failing to be written", async () => {
+    const server = new RedisStandIn();
+    const transport = await connect(server, "maxReconnectDelay=10ms");
+    const received: Update[] = [];
+    transport.addEventListener("update", ({ data }) => received.push(data));
+
+    // The transport only notices the connection is gone once using it
+    server.stop();
+    await assertRejects(
+      () => transport.publish(createUpdate("first")),
+      Error,
+      "Connection closed",
+    );
+    server.start();
+    await waitFor(() => transport.status === "connected");
+    await transport.close();
+
+    // Rejected publications are not retried, as the publisher has been told
+    assertEquals(received, []);
+    assertEquals(server.streams.get("update")?.length ?? 0, 0);
+  });
+
+  await ctx.step("Stop reconnecting once closed", async () => {
+    const server = new RedisStandIn();
+    const transport = await connect(server, "maxReconnectDelay=10ms");
+
+    server.stop();
+    await waitFor(() => transport.status === "reconnecting");
+    await transport.close();
+    server.start();
+    await delay(50);
+
+    assertEquals(transport.status, "closed");
+  });
+
+  await ctx.step("Reject invalid reconnection parameters", async () => {
+    const server = new RedisStandIn();
+
+    await assertRejects(() => connect(server, "outboxSize=0"), ZodError, "outboxSize");
+    await assertRejects(
+      () => connect(server, "maxReconnectDelay=soon"),
+      ZodError,
+      "maxReconnectDelay",
+    );
+  });
+});
+
+Deno.test("Redis transport options", async (ctx) => {
+  await ctx.step("Prefix streams and keys", async () => {
+    const server = new RedisStandIn();
+    const publisher = await connect(server, "stream=mercure");
+    const subscriber = await connect(server, "stream=mercure");
+    const received: Update[] = [];
+    subscriber.addEventListener("update", ({ data }) => received.push(data));
+
+    publisher.dispatchEvent(new MessageEvent("update", { data: createUpdate("first") }));
+    publisher.dispatchEvent(new MessageEvent("update", { data: createUpdate("second") }));
+    await waitFor(() => received.length === 2);
+
+    const updates = await Array.fromAsync(subscriber.eventsAfter("first"));
+    publisher.close();
+    subscriber.close();
+
+    assertEquals([...server.streams.keys()], ["mercure:update"]);
+    assertEquals([...server.hashes.keys()], ["mercure:update:index"]);
+    assertEquals(received.map(({ id }) => id), ["first", "second"]);
+    assertEquals(updates.map(({ id }) => id), ["second"]);
+  });
+
+  await ctx.step("Keep hubs with different prefixes apart", async () => {
+    const server = new RedisStandIn();
+    const publisher = await connect(server, "stream=foo");
+    const subscriber = await connect(server, "stream=bar");
+    const received: Update[] = [];
+    subscriber.addEventListener("update", ({ data }) => received.push(data));
+
+    await dispatch(server, publisher, "first");
+    await delay(50);
+    publisher.close();
+    subscriber.close();
+
+    assertEquals(received, []);
+  });
+
+  await ctx.step("Reject unknown parameters", async () => {
+    const server = new RedisStandIn();
+
+    await assertRejects(() => connect(server, "maxLength=5"), ZodError, "maxLength");
+  });
+
+  await ctx.step("Report errors on the transport URI option", async () => {
+    const server = new RedisStandIn();
+    const error = await assertRejects(() => connect(server, "readTimeout=soon"), ZodError);
+
+    assertEquals(error.issues.map(({ path }) => path), [["transportUri"]]);
+  });
+});
+
+async function connect(server: RedisStandIn, query = "", limit = Infinity) {
+  const transport = new RedisTransport(
+    limit,
+    10,
+    () => Promise.resolve(server.connect()),
+  );
+  await connectTransport(transport, new URL(`?${query}`, uri));
+
+  return transport;
+}
+
+/**
+ * Dispatch updates, and wait for them to be added to the stream.
+ *
+ * @param server Server the transport is connected to
+ * @param transport Transport to dispatch the updates on
+ * @param ids IDs of the updates to dispatch
+ */
+async function dispatch(server: RedisStandIn, transport: RedisTransport, ...ids: string[]) {
+  for (const id of ids) {
+    transport.dispatchEvent(new MessageEvent("update", { data: createUpdate(id) }));
+  }
+
+  // Events are written in order, and earlier ones may have been trimmed already
+  await waitFor(() => [...server.hashes.keys()].some((key) => server.indexed(key, ids.at(-1)!)));
+}
+
+function ids(count: number) {
+  return Array.from({ length: count }, (_, index) => `update-${index}`);
+}
+
+/**
+ * Seed the update stream, the same way another hub node would.
+ *
+ * @param server Server to seed
+ * @param ids IDs of the updates to add
+ */
+async function seed(server: RedisStandIn, ...ids: string[]) {
+  const connection = server.connect();
+
+  for (const id of ids) {
+    const update = createUpdate(id);
+    const { unixMs, seqNo } = await connection.xadd("update", "*", {
+      id,
+      payload: JSON.stringify(update),
+    });
+    await connection.sendCommand("HSET", ["update:index", id, `${unixMs}-${seqNo}`]);
+    await connection.sendCommand("ZADD", ["update:order", unixMs, id]);
+  }
+
+  connection.close();
+}
+
+/**
+ * In-process stand-in for a Redis server.
+ *
+ * Implements the subset of stream and key commands used by the transport, so
+ * it can be tested without a running Redis instance. Connections created from
+ * the same stand-in share their data, just like connections to a real server.
+ * To test outages, the stand-in may be stopped and started again.
+ */
+export class RedisStandIn {
+  readonly streams = new Map<string, XMessage[]>();
+  readonly hashes = new Map<string, Map<string, string>>();
+  readonly sortedSets = new Map<string, Map<string, number>>();
+  readonly #waiters = new Set<() => void>();
+  readonly #connections = new Set<RedisStandInConnection>();
+  #running = true;
+  #lastXid: XId = { unixMs: 0, seqNo: 0 };
+
+  connect() {
+    if (!this.#running) {
+      throw new Error("Connection refused");
+    }
+
+    const connection = new RedisStandInConnection(this);
+    this.#connections.add(connection);
+
+    return connection as unknown as Redis;
+  }
+
+  /**
+   * Drop all connections, and refuse new ones until started again. The data
+   * is kept, as if the server was persisting it.
+   */
+  stop() {
+    this.#running = false;
+    this.#connections.forEach((connection) => connection.close());
+    this.#connections.clear();
+  }
+
+  start() {
+    this.#running = true;
+  }
+
+  append(key: string, fieldValues: Record<string, string>, unixMs = Date.now()) {
+    const xid = unixMs > this.#lastXid.unixMs
+      ? { unixMs, seqNo: 0 }
+      : { unixMs: this.#lastXid.unixMs, seqNo: this.#lastXid.seqNo + 1 };
+    const stream = this.streams.get(key) ?? [];
+
+    stream.push({ xid, fieldValues });
+    this.streams.set(key, stream);
+    this.#lastXid = xid;
+    this.#waiters.forEach((notify) => notify());
+
+    return xid;
+  }
+
+  /**
+   * Check whether a stream holds an entry with the given ID field.
+   */
+  has(key: string, id: string) {
+    return (this.streams.get(key) ?? []).some(({ fieldValues }) => fieldValues.id === id);
+  }
+
+  /**
+   * Check whether a hash holds the given field.
+   */
+  indexed(key: string, field: string) {
+    return this.hashes.get(key)?.has(field) ?? false;
+  }
+
+  wait(notify: () => void) {
+    this.#waiters.add(notify);
+
+    return () => this.#waiters.delete(notify);
+  }
+}
+
+class RedisStandInConnection {
+  readonly #server: RedisStandIn;
+  readonly #closing = Promise.withResolvers<void>();
+  isClosed = false;
+
+  constructor(server: RedisStandIn) {
+    this.#server = server;
+  }
+
+  xadd(key: string, _xid: "*", fieldValues: Record<string, string>) {
+    this.#ensureOpen();
+
+    return Promise.resolve(this.#server.append(key, fieldValues));
+  }
+
+  xrange(key: string, start: string, end: string, count = Infinity) {
+    this.#ensureOpen();
+
+    const messages = (this.#server.streams.get(key) ?? []).filter(({ xid }) =>
+      (start === "-" || compare(xid, parse(start)) >= 0) &&
+      (end === "+" || compare(xid, parse(end)) <= 0)
+    );
+
+    return Promise.resolve(messages.slice(0, count));
+  }
+
+  xrevrange(key: string, end: string, start: string, count = Infinity) {
+    this.#ensureOpen();
+
+    const messages = (this.#server.streams.get(key) ?? []).filter(({ xid }) =>
+      (start === "-" || compare(xid, parse(start)) >= 0) &&
+      (end === "+" || compare(xid, parse(end)) <= 0)
+    );
+
+    return Promise.resolve(messages.reverse().slice(0, count));
+  }
+
+  async xread(
+    keys: { key: string; xid: string }[],
+    { block }: { block?: number } = {},
+  ): Promise<XReadStream[]> {
+    this.#ensureOpen();
+
+    const streams = keys.map(({ key, xid }) => {
+      const messages = this.#server.streams.get(key) ?? [];
+      const after = xid === "$" ? messages.at(-1)?.xid ?? { unixMs: 0, seqNo: 0 } : parse(xid);
+
+      return { key, after };
+    });
+    const read = () =>
+      streams
+        .map(({ key, after }) => ({
+          key,
+          messages: (this.#server.streams.get(key) ?? [])
+            .filter(({ xid }) => compare(xid, after) > 0),
+        }))
+        .filter(({ messages }) => messages.length > 0);
+
+    let result = read();
+
+    if (result.length || typeof block === "undefined") {
+      return result;
+    }
+
+    const { promise, resolve } = Promise.withResolvers<void>();
+    const unsubscribe = this.#server.wait(resolve);
+    const timer = block > 0 ? setTimeout(resolve, block) : undefined;
+
+    await Promise.race([promise, this.#closing.promise]);
+    unsubscribe();
+    clearTimeout(timer);
+
+    result = this.isClosed ? [] : read();
+
+    return result;
+  }
+
+  sendCommand(command: string, args: (string | number)[] = []) {
+    this.#ensureOpen();
+
+    const [key, ...rest] = args.map(String);
+
+    if (command === "XADD") {
+      const fields = rest.slice(rest.indexOf("*") + 1);
+      const xid = this.#server.append(
+        key,
+        Object.fromEntries(
+          fields.flatMap((field, index) => index % 2 ? [] : [[field, fields[index + 1]]]),
+        ),
+      );
+      this.#trim(key, rest.slice(0, rest.indexOf("*")));
+
+      return Promise.resolve(`${xid.unixMs}-${xid.seqNo}`);
+    }
+
+    if (command === "XTRIM") {
+      this.#trim(key, rest);
+
+      return Promise.resolve(0);
+    }
+
+    if (command.startsWith("H")) {
+      return Promise.resolve(this.#hash(command, key, rest));
+    }
+
+    if (command.startsWith("Z")) {
+      return Promise.resolve(this.#sortedSet(command, key, rest));
+    }
+
+    return Promise.reject(new Error(`Unsupported command: ${command}`));
+  }
+
+  close() {
+    this.isClosed = true;
+    this.#closing.resolve();
+  }
+
+  #ensureOpen() {
+    if (this.isClosed) {
+      throw new Error("Connection closed");
+    }
+  }
+
+  #hash(command: string, key: string, [field, ...rest]: string[]) {
+    const hash = this.#server.hashes.get(key) ?? new Map<string, string>();
+    this.#server.hashes.set(key, hash);
+
+    switch (command) {
+      case "HSET":
+        hash.set(field, rest[0]);
+        return 1;
+
+      case "HGET":
+        return hash.get(field) ?? null;
+
+      case "HDEL":
+        return [field, ...rest].filter((field) => hash.delete(field)).length;
+    }
+
+    throw new Error(`Unsupported command: ${command}`);
+  }
+
+  /**
+   * Apply a command to a sorted set. Members are kept in insertion order, and
+   * score ranges only support an exclusive maximum, which is all the
+   * transport needs.
+   */
+  #sortedSet(command: string, key: string, [first, second]: string[]) {
+    const set = this.#server.sortedSets.get(key) ?? new Map<string, number>();
+    this.#server.sortedSets.set(key, set);
+
+    const below = (maximum: string) =>
+      [...set].filter(([, score]) => score < Number(maximum.replace("(", "")));
+
+    switch (command) {
+      case "ZADD":
+        set.delete(second);
+        set.set(second, Number(first));
+        return 1;
+
+      case "ZRANGEBYSCORE":
+        return below(second).map(([member]) => member);
+
+      case "ZREMRANGEBYSCORE":
+        return below(second).filter(([member]) => set.delete(member)).length;
+    }
+
+    throw new Error(`Unsupported command: ${command}`);
+  }
+
+  /**
+   * Trim a stream. Unlike Redis, the stand-in always trims exactly, even if
+   * approximate trimming has been requested.
+   */
+  #trim(key: string, [strategy, , threshold]: string[]) {
+    const messages = this.#server.streams.get(key) ?? [];
+
+    if (strategy === "MAXLEN") {
+      messages.splice(0, Math.max(0, messages.length - Number(threshold)));
+    } else if (strategy === "MINID") {
+      const minimum = parse(threshold);
+
+      this.#server.streams.set(key, messages.filter(({ xid }) => compare(xid, minimum) >= 0));
+    }
+  }
+}
+
+function parse(xid: string): XId {
+  const [unixMs, seqNo = 0] = xid.split("-").map(Number);
+
+  return { unixMs, seqNo };
+}
+
+function compare(a: XId, b: XId) {
+  return a.unixMs - b.unixMs || a.seqNo - b.seqNo;
+}
@@ -0,0 +1,479 @@
+import * as Log from "@std/log";
+import type { TransportStatus } from "./mod.ts";
+
+/**
+ * Keeps a transport connected to its backend.
+ *
+ * The supervisor opens the connection when the transport connects, and opens
+ * a new one whenever the transport reports it lost, waiting between attempts
+ * using an exponential backoff. Meanwhile, the status reflects whether the
+ * backend is reachable, so the rest of the hub can report it.
+ *
+ * The first attempt to connect is not retried: If the backend is unavailable
+ * when the hub starts, it should fail right away instead of waiting silently.
+ */
+export class ConnectionSupervisor<C> extends EventTarget {
+  readonly #name: string;
+  readonly #open: () => Promise<C>;
+  readonly #dispose: (connection: C) => unknown;
+  readonly #minDelay: number;
+  readonly #maxDelay: number;
+  #status: TransportStatus = "connecting";
+  #connection: C | undefined;
+  #reconnecting: Promise<void> | undefined;
+  #ready = Promise.withResolvers<C | undefined>();
+
+  /**
+   * Create a new connection supervisor.
+   *
+   * @param name Name of the backend, used in log messages
+   * @param open Function used to open a new connection
+   * @param dispose Function used to close a connection
+   * @param options Delays between attempts to reconnect, in milliseconds
+   */
+  constructor(
+    name: string,
+    open: () => Promise<C>,
+    dispose: (connection: C) => unknown,
+    { minDelay = 100, maxDelay = 30_000 }: BackoffOptions = {},
+  ) {
+    super();
+    this.#name = name;
+    this.#open = open;
+    this.#dispose = dispose;
+    this.#minDelay = minDelay;
+    this.#maxDelay = maxDelay;
+  }
+
+  get status() {
+    return this.#status;
+  }
+
+  /**
+   * The current connection.
+   *
+   * @throws {Error} If there is no connection right now
+   */
+  get connection() {
+    if (!this.#connection) {
+      throw new Error(
+        "Unexpected state: Not connected. A connection should have " +
+          "been established before attempting to use it.",
+      );
+    }
+
+    return this.#connection;
+  }
+
+  /**
+   * Resolves with the current connection once connected, or with `undefined`
+   * once the supervisor has been closed.
+   */
+  get ready() {
+    return this.#status === "closed" ? Promise.resolve(undefined) : this.#ready.promise;
+  }
+
+  async connect() {
+    this.#connected(await this.#open());
+  }
+
+  /**
+   * Report a connection as lost, and reconnect in the background.
+   *
+   * Connections that have been replaced already are ignored, so every part of
+   * the transport using a connection may report it lost when it fails.
+   *
+   * @param connection Connection that has been lost
+   * @param error Error the connection failed with
+   * @returns A promise resolving once reconnected, or closed
+   */
+  lost(connection: C, error: Error) {
+    if (connection !== this.#connection || this.#status === "closed") {
+      return this.#reconnecting ?? Promise.resolve();
+    }
+
+    Log.warn(`Lost connection to ${this.#name}: ${error.message}`, { error });
+    this.#reconnecting = this.#reconnect(connection);
+
+    return this.#reconnecting;
+  }
+
+  close() {
+    if (this.#connection) {
+      this.#dispose(this.#connection);
+    }
+
+    this.#connection = undefined;
+    this.#setStatus("closed");
+
+    // Release everyone waiting for a connection while reconnecting
+    this.#ready.resolve(undefined);
+  }
+
+  async #reconnect(previous: C) {
+    this.#connection = undefined;
+    this.#ready = Promise.withResolvers();
+    this.#setStatus("reconnecting");
+    this.#dispose(previous);
+
+    for (let attempt = 0; !this.#closed(); attempt++) {
+      const delay = backoffDelay(attempt, this.#minDelay, this.#maxDelay);
+      Log.info(`Reconnecting to ${this.#name} in ${delay}ms`);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+
+      if (this.#closed()) {
+        break;
+      }
+
+      try {
+        const connection = await this.#open();
+
+        // The supervisor may have been closed while the connection was opened
+        if (this.#closed()) {
+          this.#dispose(connection);
+          break;
+        }
+
+        this.#connected(connection);
+        Log.info(`Reconnected to ${this.#name}`);
+        break;
+      } catch (error) {
+        Log.error(`Reconnecting to ${this.#name} failed: ${error.message}`, { error });
+      }
+    }
+
+    this.#reconnecting = undefined;
+  }
+
+  // A method rather than a comparison, as the status may change while waiting
+  #closed() {
+    return this.#status === "closed";
+  }
+
+  #connected(connection: C) {
+    this.#connection = connection;
+    this.#setStatus("connected");
+    this.#ready.resolve(connection);
+  }
+
+  #setStatus(status: TransportStatus) {
+    if (status !== this.#status) {
+      this.#status = status;
+      this.dispatchEvent(new Event("statuschange"));
+    }
+  }
+}
+
+/**
+ * A bounded queue of pending writes.
+ *
+ * Events are added to the outbox when they are dispatched, and removed once
+ * they have been written to the backend. If writing fails, they stay in the
+ * outbox until the transport has reconnected and flushes it again, so no
+ * events are lost during short outages. If the outbox is full, the oldest
+ * events are dropped to make room for new ones.
+ *
+ * Alternatively, items may be written with an acknowledgement, to let the
+ * caller know whether they have been written. Those are not retried.
+ */
+export class Outbox<T> {
+  readonly #items: Pending<T>[] = [];
+  readonly #write: (item: T) => Promise<unknown>;
+  #flushing: Promise<void> | undefined;
+  #current: Pending<T> | undefined;
+  #dropped = 0;
+
+  /**
+   * Create a new outbox.
+   *
+   * @param limit Maximum number of items to keep
+   * @param write Function used to write a single item to the backend
+   */
+  constructor(public readonly limit: number, write: (item: T) => Promise<unknown>) {
+    this.#write = write;
+  }
+
+  get size() {
+    return this.#items.length;
+  }
+
+  push(item: T) {
+    this.#enqueue({ item });
+  }
+
+  /**
+   * Add an item, and wait for it to be written.
+   *
+   * Unlike pushed items, the item is removed if writing it fails, and the
+   * returned promise rejects, so the caller can handle the failure instead. If
+   * the signal aborts before writing has started, the item is removed, too.
+   *
+   * Note that this only adds the item; the outbox must be flushed to write it.
+   *
+   * @param item Item to write
+   * @param signal Signal to abort waiting for the item to be written
+   */
+  write(item: T, signal?: AbortSignal) {
+    signal?.throwIfAborted();
+
+    const written = Promise.withResolvers<void>();
+    const pending: Pending<T> = { item, written };
+    this.#enqueue(pending);
+
+    signal?.addEventListener("abort", () => {
+      if (pending !== this.#current) {
+        this.#remove(pending);
+      }
+
+      written.reject(signal.reason);
+    }, { once: true });
+
+    return written.promise;
+  }
+
+  /**
+   * Write all pending items in order.
+   *
+   * Items are removed once they have been written. If writing an item fails,
+   * it stays in the outbox along with all following items, and the returned
+   * promise rejects. While flushing, the same promise is returned to every
+   * caller, so items are never written twice.
+   */
+  flush() {
+    this.#flushing ??= this.#drain().finally(() => this.#flushing = undefined);
+
+    return this.#flushing;
+  }
+
+  async #drain() {
+    while (this.#items.length > 0) {
+      const pending = this.#current = this.#items[0];
+
+      try {
+        await this.#write(pending.item);
+      } catch (error) {
+        if (pending.written) {
+          this.#remove(pending);
+          pending.written.reject(error);
+        }
+
+        throw error;
+      } finally {
+        this.#current = undefined;
+      }
+
+      // The item may have been dropped while writing, if the outbox was full
+      this.#remove(pending);
+      pending.written?.resolve();
+    }
+
+    if (this.#dropped > 0) {
+      Log.warn(`Dropped ${this.#dropped} events while the outbox was full`);
+      this.#dropped = 0;
+    }
+  }
+
+  #enqueue(pending: Pending<T>) {
+    this.#items.push(pending);
+
+    if (this.#items.length > this.limit) {
+      const dropped = this.#items.shift()!;
+      dropped.written?.reject(new Error("Outbox is full"));
+
+      // Only warn once per outage, instead of once per event dropped
+      if (this.#dropped++ === 0) {
+        Log.warn(`Outbox is full, dropping the oldest events (limit: ${this.limit})`);
+      }
+    }
+  }
+
+  #remove(pending: Pending<T>) {
+    const index = this.#items.indexOf(pending);
+
+    if (index !== -1) {
+      this.#items.splice(index, 1);
+    }
+  }
+}
+
+/**
+ * Runs the writes of a transport one after another.
+ *
+ * Transports fan events out to other hub nodes through their backend, and
+ * deliver them to local listeners right away, without waiting for the round
+ * trip. Writes are chained, so events reach the backend in the order they
+ * were dispatched, even if the driver would run them in parallel, or retries
+ * take a while. A failed write does not keep later ones from running.
+ */
+export class PublishQueue {
+  #tail: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Queue a write without waiting for it. Failures are logged.
+   *
+   * @param write Function performing the write
+   */
+  push(write: () => Promise<unknown>) {
+    this.run(write).catch((error) =>
+      Log.error(`Event dispatch failed: ${error.message}`, { error })
+    );
+  }
+
+  /**
+   * Queue a write, and wait for it to complete.
+   *
+   * If the signal aborts before the write has started, it is skipped. Writes
+   * that have started are not cancelled, so they may complete afterwards.
+   *
+   * @param write Function performing the write
+   * @param signal Signal to abort waiting for the write
+   */
+  async run<T>(write: () => Promise<T>, signal?: AbortSignal) {
+    signal?.throwIfAborted();
+
+    const written = this.#tail.then(() => {
+      signal?.throwIfAborted();
+
+      return write();
+    });
+    this.#tail = written.catch(() => undefined);
+
+    return await abortable(written, signal);
+  }
+
+  /**
+   * Resolves once all writes queued so far have completed or failed.
+   */
+  settled() {
+    return this.#tail.then(() => undefined);
+  }
+}
+
+/**
+ * Maps the IDs of the latest updates to their positions in the backend, so
+ * the history can be resumed from them.
+ *
+ * Entries are ordered by insertion, so the oldest are always at the start, and
+ * reused IDs are moved to the end. Once there are more entries than the size
+ * of the index, or entries older than the maximum age, the oldest are removed.
+ */
+export class UpdateIndex<P> {
+  readonly #entries = new Map<string, IndexEntry<P>>();
+  readonly #size: number;
+  readonly #maxAge: number;
+
+  /**
+   * Create a new update index.
+   *
+   * @param size Maximum number of entries
+   * @param maxAge Maximum age of entries, in milliseconds
+   */
+  constructor(size: number, maxAge = Infinity) {
+    this.#size = size;
+    this.#maxAge = maxAge;
+  }
+
+  get size() {
+    return this.#entries.size;
+  }
+
+  get(id: string) {
+    return this.#entries.get(id)?.position;
+  }
+
+  /**
+   * Add an update, and remove entries that have expired, or exceed the size of
+   * the index.
+   *
+   * @param id ID of the update
+   * @param position Position of the update in the backend
+   * @param timestamp Time the update was stored at, in milliseconds
+   */
+  set(id: string, position: P, timestamp = Date.now()) {
+    this.#entries.delete(id);
+    this.#entries.set(id, { position, timestamp });
+
+    const threshold = Date.now() - this.#maxAge;
+
+    for (const [id, { timestamp }] of this.#entries) {
+      if (timestamp >= threshold && this.#entries.size <= this.#size) {
+        break;
+      }
+
+      this.#entries.delete(id);
+    }
+  }
+
+  delete(id: string) {
+    return this.#entries.delete(id);
+  }
+
+  clear() {
+    this.#entries.clear();
+  }
+
+  /**
+   * Iterate over the IDs and positions, oldest first.
+   */
+  *[Symbol.iterator](): IterableIterator<[string, P]> {
+    for (const [id, { position }] of this.#entries) {
+      yield [id, position];
+    }
+  }
+}
+
+/**
+ * Wait for a promise, unless the signal aborts first. The operation behind the
+ * promise is not cancelled, so it may still complete afterwards.
+ *
+ * @param promise Promise to wait for
+ * @param signal Signal to abort waiting
+ * @throws The reason of the signal, if it aborts first
+ */
+export async function abortable<T>(promise: Promise<T>, signal?: AbortSignal) {
+  if (!signal) {
+    return await promise;
+  }
+
+  signal.throwIfAborted();
+
+  const aborted = Promise.withResolvers<never>();
+  const abort = () => aborted.reject(signal.reason);
+  signal.addEventListener("abort", abort, { once: true });
+
+  try {
+    return await Promise.race([promise, aborted.promise]);
+  } finally {
+    signal.removeEventListener("abort", abort);
+  }
+}
+
+/**
+ * Calculate the delay before the next attempt to reconnect.
+ *
+ * @param attempt Number of failed attempts so far
+ * @param minDelay Delay before the first attempt, in milliseconds
+ * @param maxDelay Maximum delay, in milliseconds
+ */
+export function backoffDelay(attempt: number, minDelay: number, maxDelay: number) {
+  return Math.min(minDelay * 2 ** attempt, maxDelay);
+}
+
+type Pending<T> = {
+  item: T;
+
+  /**
+   * Settles once the item has been written, if written with acknowledgement.
+   */
+  written?: PromiseWithResolvers<void>;
+};
+
+type IndexEntry<P> = {
+  position: P;
+  timestamp: number;
+};
+
+type BackoffOptions = {
+  minDelay?: number;
+  maxDelay?: number;
+};
@@ -0,0 +1,345 @@
+import { assertEquals, assertRejects } from "@std/assert";
+import { delay, waitFor } from "../test_utilities.ts";
+import type { TransportStatus } from "./mod.ts";
+import {
+  abortable,
+  backoffDelay,
+  ConnectionSupervisor,
+  Outbox,
+  PublishQueue,
+  UpdateIndex,
+} from "./supervisor.ts";
+
+Deno.test("Connection supervisor", async (ctx) => {
+  await ctx.step("Connect using the given function", async () => {
+    const backend = new Backend();
+    const supervisor = backend.supervise();
+
+    await supervisor.connect();
+
+    assertEquals(supervisor.status, "connected");
+    assertEquals(supervisor.connection, 1);
+    assertEquals(await supervisor.ready, 1);
+    supervisor.close();
+  });
+
+  await ctx.step("Fail if the first connection fails", async () => {
+    const backend = new Backend();
+    const supervisor = backend.supervise();
+    backend.available = false;
+
+    await assertRejects(() => supervisor.connect(), Error, "refused");
+    assertEquals(supervisor.status, "connecting");
+  });
+
+  await ctx.step("Reconnect once a connection is lost", async () => {
+    const backend = new Backend();
+    const supervisor = backend.supervise();
+    const statuses: TransportStatus[] = [];
+    supervisor.addEventListener("statuschange", () => statuses.push(supervisor.status));
+    await supervisor.connect();
+
+    await supervisor.lost(1, new Error("Connection reset"));
+    supervisor.close();
+
+    assertEquals(backend.disposed, [1, 2]);
+    assertEquals(statuses, ["connected", "reconnecting", "connected", "closed"]);
+  });
+
+  await ctx.step("Keep trying until the backend is available again", async () => {
+    const backend = new Backend();
+    const supervisor = backend.supervise();
+    await supervisor.connect();
+    backend.available = false;
+
+    const reconnecting = supervisor.lost(1, new Error("Connection reset"));
+    await waitFor(() => backend.attempts > 3);
+    backend.available = true;
+    await reconnecting;
+
+    assertEquals(supervisor.status, "connected");
+    assertEquals(supervisor.connection, backend.attempts);
+    supervisor.close();
+  });
+
+  await ctx.step("Ignore connections that have been replaced already", async () => {
+    const backend = new Backend();
+    const supervisor = backend.supervise();
+    await supervisor.connect();
+
+    await supervisor.lost(1, new Error("Connection reset"));
+    await supervisor.lost(1, new Error("Connection reset"));
+    supervisor.close();
+
+    assertEquals(backend.attempts, 2);
+  });
+
+  await ctx.step("Stop reconnecting once closed", async () => {
+    const backend = new Backend();
+    const supervisor = backend.supervise();
+    await supervisor.connect();
+    backend.available = false;
+
+    const reconnecting = supervisor.lost(1, new Error("Connection reset"));
+    const ready = supervisor.ready;
+    supervisor.close();
+    backend.available = true;
+    await reconnecting;
+
+    assertEquals(await ready, undefined);
+    assertEquals(await supervisor.ready, undefined);
+    assertEquals(supervisor.status, "closed");
+  });
+});
+
+Deno.test("Outbox", async (ctx) => {
+  await ctx.step("Write items in order", async () => {
+    const written: number[] = [];
+    const outbox = new Outbox<number>(10, async (item) => {
+      await delay(1);
+      written.push(item);
+    });
+
+    outbox.push(1);
+    outbox.push(2);
+    const flushing = outbox.flush();
+    outbox.push(3);
+    await flushing;
+
+    assertEquals(written, [1, 2, 3]);
+    assertEquals(outbox.size, 0);
+  });
+
+  await ctx.step("Keep items that failed to be written", async () => {
+    const written: number[] = [];
+    let available = false;
+    const outbox = new Outbox<number>(10, (item) => {
+      if (!available) {
+        return Promise.reject(new Error("Connection refused"));
+      }
+
+      written.push(item);
+
+      return Promise.resolve();
+    });
+
+    outbox.push(1);
+    outbox.push(2);
+    await assertRejects(() => outbox.flush(), Error, "refused");
+    available = true;
+    await outbox.flush();
+
+    assertEquals(written, [1, 2]);
+  });
+
+  await ctx.step("Drop the oldest items if full", async () => {
+    const written: number[] = [];
+    const outbox = new Outbox<number>(2, (item) => Promise.resolve(written.push(item)));
+
+    outbox.push(1);
+    outbox.push(2);
+    outbox.push(3);
+    await outbox.flush();
+
+    assertEquals(written, [2, 3]);
+  });
+
+  await ctx.step("Only write items once while flushing concurrently", async () => {
+    const written: number[] = [];
+    const outbox = new Outbox<number>(10, async (item) => {
+      await delay(1);
+      written.push(item);
+    });
+
+    outbox.push(1);
+    outbox.push(2);
+    await Promise.all([outbox.flush(), outbox.flush()]);
+
+    assertEquals(written, [1, 2]);
+  });
+
+  await ctx.step("Acknowledge written items", async () => {
+    const written: number[] = [];
+    const outbox = new Outbox<number>(10, (item) => Promise.resolve(written.push(item)));
+
+    const writing = outbox.write(1);
+    await outbox.flush();
+    await writing;
+
+    assertEquals(written, [1]);
+    assertEquals(outbox.size, 0);
+  });
+
+  await ctx.step("Reject acknowledged items failing to be written", async () => {
+    const outbox = new Outbox<number>(
+      10,
+      () => Promise.reject(new Error("Connection refused")),
+    );
+
+    const writing = outbox.write(1);
+    await assertRejects(() => outbox.flush(), Error, "refused");
+    await assertRejects(() => writing, Error, "refused");
+
+    assertEquals(outbox.size, 0);
+  });
+
+  await ctx.step("Remove acknowledged items once aborted", async () => {
+    const written: number[] = [];
+    const outbox = new Outbox<number>(10, (item) => Promise.resolve(written.push(item)));
+    const controller = new AbortController();
+
+    const writing = outbox.write(1, controller.signal);
+    controller.abort(new Error("Timed out"));
+    await assertRejects(() => writing, Error, "Timed out");
+    await outbox.flush();
+
+    assertEquals(written, []);
+  });
+
+  await ctx.step("Reject acknowledged items dropped if full", async () => {
+    const written: number[] = [];
+    const outbox = new Outbox<number>(1, (item) => Promise.resolve(written.push(item)));
+
+    const writing = outbox.write(1);
+    outbox.push(2);
+    await assertRejects(() => writing, Error, "full");
+    await outbox.flush();
+
+    assertEquals(written, [2]);
+  });
+});
+
+Deno.test("Publish queue", async (ctx) => {
+  await ctx.step("Write in order", async () => {
+    const written: number[] = [];
+    const queue = new PublishQueue();
+    const write = (item: number, duration: number) => async () => {
+      await delay(duration);
+      written.push(item);
+    };
+
+    queue.push(write(1, 5));
+    const second = queue.run(write(2, 1));
+    queue.push(write(3, 0));
+    await second;
+    await queue.settled();
+
+    assertEquals(written, [1, 2, 3]);
+  });
+
+  await ctx.step("Keep writing after a failed write", async () => {
+    const written: number[] = [];
+    const queue = new PublishQueue();
+
+    const failed = queue.run(() => Promise.reject(new Error("Connection refused")));
+    await queue.run(() => Promise.resolve(written.push(1)));
+
+    await assertRejects(() => failed, Error, "refused");
+    assertEquals(written, [1]);
+  });
+
+  await ctx.step("Skip writes aborted before they started", async () => {
+    const written: number[] = [];
+    const queue = new PublishQueue();
+    const controller = new AbortController();
+
+    queue.push(() => delay(5));
+    const aborted = queue.run(() => Promise.resolve(written.push(1)), controller.signal);
+    controller.abort(new Error("Timed out"));
+
+    await assertRejects(() => aborted, Error, "Timed out");
+    await queue.settled();
+    assertEquals(written, []);
+  });
+});
+
+Deno.test("Update index", async (ctx) => {
+  await ctx.step("Only keep the latest entries within the size", () => {
+    const index = new UpdateIndex<number>(2);
+
+    index.set("a", 1);
+    index.set("b", 2);
+    index.set("c", 3);
+
+    assertEquals([...index], [["b", 2], ["c", 3]]);
+  });
+
+  await ctx.step("Move reused IDs to the end", () => {
+    const index = new UpdateIndex<number>(2);
+
+    index.set("a", 1);
+    index.set("b", 2);
+    index.set("a", 3);
+    index.set("c", 4);
+
+    assertEquals([...index], [["a", 3], ["c", 4]]);
+  });
+
+  await ctx.step("Remove expired entries", () => {
+    const index = new UpdateIndex<number>(10, 1_000);
+
+    index.set("a", 1, Date.now() - 2_000);
+    index.set("b", 2);
+
+    assertEquals(index.get("a"), undefined);
+    assertEquals(index.get("b"), 2);
+  });
+});
+
+Deno.test("Abortable promises", async (ctx) => {
+  await ctx.step("Resolve with the value of the promise", async () => {
+    const controller = new AbortController();
+
+    assertEquals(await abortable(Promise.resolve("value"), controller.signal), "value");
+  });
+
+  await ctx.step("Reject once the signal aborts", async () => {
+    const controller = new AbortController();
+    const pending = abortable(new Promise(() => {}), controller.signal);
+
+    controller.abort(new Error("Timed out"));
+
+    await assertRejects(() => pending, Error, "Timed out");
+  });
+
+  await ctx.step("Reject right away if aborted already", async () => {
+    await assertRejects(
+      () => abortable(Promise.resolve(), AbortSignal.abort(new Error("Aborted"))),
+      Error,
+      "Aborted",
+    );
+  });
+});
+
+Deno.test("Backoff delay", () => {
+  assertEquals(
+    [0, 1, 2, 3, 4, 5, 10].map((attempt) => backoffDelay(attempt, 100, 1_000)),
+    [100, 200, 400, 800, 1_000, 1_000, 1_000],
+  );
+});
+
+/**
+ * A backend handing out numbered connections.
+ */
+class Backend {
+  available = true;
+  attempts = 0;
+  readonly disposed: number[] = [];
+
+  supervise() {
+    return new ConnectionSupervisor(
+      "backend",
+      () => this.open(),
+      (connection) => this.disposed.push(connection),
+      { minDelay: 1, maxDelay: 5 },
+    );
+  }
+
+  open() {
+    this.attempts++;
+
+    return this.available
+      ? Promise.resolve(this.attempts)
+      : Promise.reject(new Error("Connection refused"));
+  }
+}
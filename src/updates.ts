@@ -11,3 +11,27 @@ export type Update = {
   readonly retry?: number;
   readonly type?: string;
 };
+
+/**
+ * Check whether a value has the shape of an update, for example one read back
+ * from a file, which may have been written by a different version or edited.
+ *
+ * @param value Value to check
+ */
+export function isUpdate(value: unknown): value is Update {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+
+  const { id, canonicalTopic, alternateTopics, data, private: isPrivate, retry, type } =
+    value as Record<string, unknown>;
+
+  return typeof id === "string" &&
+    typeof canonicalTopic === "string" &&
+    Array.isArray(alternateTopics) &&
+    alternateTopics.every((topic) => typeof topic === "string") &&
+    (data === undefined || typeof data === "string") &&
+    (isPrivate === undefined || typeof isPrivate === "boolean") &&
+    (retry === undefined || typeof retry === "number") &&
+    (type === undefined || typeof type === "string");
+}
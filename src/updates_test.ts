@@ -1,5 +1,5 @@
-import { assertNotEquals, assertStringIncludes } from "@std/assert";
-import { generateId } from "./updates.ts";
+import { assert, assertFalse, assertNotEquals, assertStringIncludes } from "@std/assert";
+import { generateId, isUpdate } from "./updates.ts";
 
 Deno.test("Generate a new update ID", () => {
   const id = generateId();
@@ -7,3 +7,31 @@ Deno.test("Generate a new update ID", () => {
   assertStringIncludes(id, "urn:uuid:");
   assertNotEquals(id, generateId());
 });
+
+Deno.test("Recognize updates", async (ctx) => {
+  await ctx.step("Accept values with the shape of an update", () => {
+    assert(isUpdate({ id: "1", canonicalTopic: "https://example.com", alternateTopics: [] }));
+    assert(isUpdate({
+      id: "1",
+      canonicalTopic: "https://example.com",
+      alternateTopics: ["https://example.com/alternate"],
+      data: "data",
+      private: true,
+      retry: 1_000,
+      type: "message",
+    }));
+  });
+
+  await ctx.step("Reject other values", () => {
+    assertFalse(isUpdate(null));
+    assertFalse(isUpdate("update"));
+    assertFalse(isUpdate({ id: "1", canonicalTopic: "https://example.com" }));
+    assertFalse(isUpdate({ id: 1, canonicalTopic: "https://example.com", alternateTopics: [] }));
+    assertFalse(isUpdate({
+      id: "1",
+      canonicalTopic: "https://example.com",
+      alternateTopics: [],
+      private: "yes",
+    }));
+  });
+});